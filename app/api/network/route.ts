@@ -0,0 +1,24 @@
+import { networkInterfaces } from 'node:os';
+import { checkScope, policyFromEnv } from '@/lib/scanPolicy';
+import { interfaceCidr, type NetworkInterfaceSummary } from '@/lib/subnetDiscovery';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const policy = policyFromEnv(process.env);
+
+  // Only interfaces the scan API would accept as targets are listed.
+  const interfaces: NetworkInterfaceSummary[] = Object.entries(networkInterfaces()).flatMap(([name, entries]) =>
+    (entries ?? [])
+      .filter((entry) => !entry.internal && checkScope([entry.address], policy).allowed)
+      .map((entry) => ({
+        name,
+        address: entry.address,
+        netmask: entry.netmask,
+        cidr: interfaceCidr(entry.address, entry.netmask)
+      }))
+  );
+
+  return Response.json({ interfaces });
+}
@@ -0,0 +1,8 @@
+import { policyFromEnv } from '@/lib/scanPolicy';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return Response.json(policyFromEnv(process.env));
+}
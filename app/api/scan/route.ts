@@ -0,0 +1,68 @@
+import { MESSAGES, requestLocale } from '@/lib/i18n';
+import { scanErrorBody, toScanErrorDetail } from '@/lib/scanErrors';
+import { policyFromEnv } from '@/lib/scanPolicy';
+import { createServerScanEngine } from '@/lib/serverEngine';
+import { encodeNdjson, encodeSse, validateServerScanRequest, type ServerScanMessage } from '@/lib/serverScan';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validation = validateServerScanRequest(body, policyFromEnv(process.env));
+
+  if (!validation.ok) {
+    return Response.json(scanErrorBody(MESSAGES[requestLocale(request)], validation.errors), { status: 400 });
+  }
+
+  const { plan } = validation;
+  const wantsSse =
+    new URL(request.url).searchParams.get('format') === 'sse' ||
+    (request.headers.get('accept') ?? '').includes('text/event-stream');
+  const encode = wantsSse ? encodeSse : encodeNdjson;
+  const encoder = new TextEncoder();
+
+  const engine = createServerScanEngine(plan);
+
+  request.signal.addEventListener('abort', () => engine.cancel(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (message: ServerScanMessage) => {
+        try {
+          controller.enqueue(encoder.encode(encode(message)));
+        } catch {
+          engine.cancel();
+        }
+      };
+
+      engine.on('host-started', ({ ip }) => send({ type: 'host-started', ip }));
+      engine.on('host-done', ({ result, progress }) => send({ type: 'host-done', result, progress }));
+      engine.on('finished', ({ progress, cancelled }) => send({ type: 'finished', progress, cancelled }));
+
+      engine
+        .start()
+        .catch((error: unknown) => {
+          send({ type: 'error', error: toScanErrorDetail(error) });
+        })
+        .finally(() => {
+          try {
+            controller.close();
+          } catch {
+            // The client already went away.
+          }
+        });
+    },
+    cancel() {
+      engine.cancel();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': wantsSse ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive'
+    }
+  });
+}
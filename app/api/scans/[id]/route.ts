@@ -0,0 +1,25 @@
+import { MESSAGES, requestLocale } from '@/lib/i18n';
+import { scanErrorBody } from '@/lib/scanErrors';
+import { getScanJobQueue } from '@/lib/serverEngine';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+function notFound(request: Request, id: string) {
+  return Response.json(scanErrorBody(MESSAGES[requestLocale(request)], [{ code: 'job-not-found', id }]), {
+    status: 404
+  });
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const since = Number(new URL(request.url).searchParams.get('since') ?? 0);
+  const job = getScanJobQueue().get(params.id, Number.isFinite(since) ? since : 0);
+  return job ? Response.json(job, { headers: { 'Cache-Control': 'no-store' } }) : notFound(request, params.id);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const job = getScanJobQueue().cancel(params.id);
+  return job ? Response.json(job) : notFound(request, params.id);
+}
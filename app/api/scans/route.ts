@@ -0,0 +1,34 @@
+import { MESSAGES, requestLocale } from '@/lib/i18n';
+import { scanErrorBody } from '@/lib/scanErrors';
+import { SCAN_JOBS_ENDPOINT } from '@/lib/scanJobs';
+import { policyFromEnv } from '@/lib/scanPolicy';
+import { getScanJobQueue } from '@/lib/serverEngine';
+import { validateServerScanRequest } from '@/lib/serverScan';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return Response.json({ jobs: getScanJobQueue().list() }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const validation = validateServerScanRequest(body, policyFromEnv(process.env));
+
+  const messages = MESSAGES[requestLocale(request)];
+
+  if (!validation.ok) {
+    return Response.json(scanErrorBody(messages, validation.errors), { status: 400 });
+  }
+
+  const submission = getScanJobQueue().submit(validation.plan);
+  if (!submission.ok) {
+    return Response.json(scanErrorBody(messages, [submission.error]), { status: 503, headers: { 'Retry-After': '30' } });
+  }
+
+  return Response.json(submission.job, {
+    status: 202,
+    headers: { Location: `${SCAN_JOBS_ENDPOINT}/${submission.job.id}` }
+  });
+}
@@ -1,20 +1,32 @@
 import type { Metadata } from 'next';
+import { cookies, headers } from 'next/headers';
+import { LOCALE_COOKIE, MESSAGES, resolveLocale } from '@/lib/i18n';
+import I18nProvider from '@/components/I18nProvider';
 import './globals.css';
 
-export const metadata: Metadata = {
-  title: 'LAN Scanner Pro',
-  description: 'Advanced browser-based LAN scanner for quick host discovery.'
-};
+function requestLocale() {
+  return resolveLocale(cookies().get(LOCALE_COOKIE)?.value, headers().get('accept-language'));
+}
+
+export function generateMetadata(): Metadata {
+  const { meta } = MESSAGES[requestLocale()];
+  return {
+    title: meta.title,
+    description: meta.description
+  };
+}
 
 export default function RootLayout({
   children
 }: {
   children: React.ReactNode;
 }) {
+  const locale = requestLocale();
+
   return (
-    <html lang="pt-BR">
+    <html lang={locale}>
       <body className="min-h-screen bg-slate-950 text-slate-100 antialiased">
-        {children}
+        <I18nProvider initialLocale={locale}>{children}</I18nProvider>
       </body>
     </html>
   );
@@ -1,315 +1,502 @@
 'use client';
 
-import { useCallback, useMemo, useRef, useState } from 'react';
-import type { MutableRefObject } from 'react';
-import { cidrToRange, enumerateRange, isValidIPv4 } from '@/lib/ipRange';
-import { DEFAULT_PORTS, type PortDescriptor } from '@/lib/ports';
-
-type PortStatus = 'responsive' | 'timeout';
-
-type PortScanResult = {
-  port: number;
-  label: string;
-  protocol: 'http' | 'https';
-  status: PortStatus;
-  latencyMs: number | null;
-  method: 'fetch' | 'image';
-};
-
-type HostScanResult = {
-  ip: string;
-  ports: PortScanResult[];
-  reachable: boolean;
-  completedAt: number;
-};
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isValidIP, parseTargets, type TargetParseResult } from '@/lib/ipRange';
+import { DEFAULT_PORTS, formatPortExpression, sortPorts, type PortDescriptor } from '@/lib/ports';
+import { ScanEngine, type ScanRunner } from '@/lib/scanEngine';
+import { ServerScanSession } from '@/lib/serverScan';
+import { ScanJobSession, type ScanJobSummary } from '@/lib/scanJobs';
+import { compareHostResults, hasIdentity, summarizeProgress } from '@/lib/hostResults';
+import { createReport, type ScanReport } from '@/lib/resultsExport';
+import { createBatcher } from '@/lib/resultsTable';
+import { saveScan } from '@/lib/scanHistory';
+import { describeError } from '@/lib/scanErrors';
+import {
+  createSimulatedProber,
+  DEFAULT_SCENARIO,
+  parseScenario,
+  SIMULATED_SCENARIOS,
+  type SimulatedScenario,
+  type SimulatedScenarioId
+} from '@/lib/simulatedNetwork';
+import {
+  checkScope,
+  DEFAULT_SCAN_POLICY,
+  estimateScan,
+  fetchScanPolicy,
+  requiresConfirmation,
+  type ScanPolicy
+} from '@/lib/scanPolicy';
+import { resolveDefaultCidr } from '@/lib/subnetDiscovery';
+import {
+  classifyHost,
+  deleteRule,
+  DEVICE_ICONS,
+  DEVICE_TYPES,
+  groupByDeviceType,
+  loadRules,
+  restoreBuiltInRules,
+  saveRule,
+  type DeviceRule,
+  type DeviceRuleDraft,
+  type DeviceType
+} from '@/lib/deviceClassification';
+import {
+  deleteDevice,
+  draftFromHost,
+  loadInventory,
+  matchDevice,
+  saveDevice,
+  type InventoryDevice,
+  type InventoryDraft
+} from '@/lib/deviceInventory';
+import { resolveTuning, SCAN_SPEED_PRESETS, type ScanSpeed } from '@/lib/scanTuning';
+import type { HostScanResult, ScanBackend, ScanConfig, ScanProgress, TimingCalibration } from '@/lib/scanTypes';
+import PortSelector from '@/components/PortSelector';
+import HostCard from '@/components/HostCard';
+import ResultsTransfer from '@/components/ResultsTransfer';
+import ScanHistory from '@/components/ScanHistory';
+import DeviceInventory from '@/components/DeviceInventory';
+import DeviceRules from '@/components/DeviceRules';
+import ResultsTable from '@/components/ResultsTable';
+import SubnetPicker from '@/components/SubnetPicker';
+import SubnetMap from '@/components/SubnetMap';
+import ScanConfirmation from '@/components/ScanConfirmation';
+import MonitorPanel from '@/components/MonitorPanel';
+import ScanJobs from '@/components/ScanJobs';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import { useI18n } from '@/components/I18nProvider';
 
 type RangeMode = 'cidr' | 'interval';
 
-const DEFAULT_TIMEOUT = 4000;
-const DEFAULT_CONCURRENCY = 24;
-
-function resolveDefaultCidr(): string {
-  if (typeof window === 'undefined') {
-    return '192.168.0.1/24';
-  }
-
-  const { hostname } = window.location;
-
-  if (isValidIPv4(hostname)) {
-    const segments = hostname.split('.');
-    return `${segments[0]}.${segments[1]}.${segments[2]}.1/24`;
-  }
-
-  return '192.168.0.1/24';
-}
-
-async function probeViaFetch(url: string, timeoutMs: number) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
-  const start = performance.now();
-
-  try {
-    await fetch(url, {
-      mode: 'no-cors',
-      cache: 'no-store',
-      signal: controller.signal
-    });
-    const latency = performance.now() - start;
-    clearTimeout(timeout);
-    return {
-      status: 'responsive' as const,
-      latency
-    };
-  } catch (error) {
-    clearTimeout(timeout);
-    const isAbortError = error instanceof DOMException && error.name === 'AbortError';
-
-    return {
-      status: isAbortError ? ('timeout' as const) : ('timeout' as const),
-      latency: null
-    };
-  }
-}
-
-async function probeViaImage(url: string, timeoutMs: number) {
-  return new Promise<{ status: PortStatus; latency: number | null }>((resolve) => {
-    const img = new Image();
-    const start = performance.now();
-    let settled = false;
-
-    const finalize = (status: PortStatus, latencyOverride?: number | null) => {
-      if (settled) {
-        return;
-      }
-      settled = true;
-      resolve({
-        status,
-        latency: typeof latencyOverride === 'number' ? latencyOverride : status === 'responsive' ? performance.now() - start : null
-      });
-    };
-
-    const timeoutId = setTimeout(() => {
-      finalize('timeout');
-    }, timeoutMs);
-
-    img.onload = () => {
-      clearTimeout(timeoutId);
-      finalize('responsive');
-    };
-    img.onerror = () => {
-      clearTimeout(timeoutId);
-      const elapsed = performance.now() - start;
-      finalize(elapsed < timeoutMs ? 'responsive' : 'timeout', elapsed < timeoutMs ? elapsed : null);
-    };
-
-    img.src = `${url.replace(/\?$/, '')}?v=${Math.random().toString(36).slice(2)}`;
-  });
-}
-
-async function probePort(
-  ip: string,
-  descriptor: PortDescriptor,
-  timeoutMs: number
-): Promise<PortScanResult> {
-  const scheme = descriptor.protocol;
-  const url = `${scheme}://${ip}:${descriptor.port}`;
-  const prefersFetch =
-    (scheme === 'https' && typeof window !== 'undefined') ||
-    (typeof window !== 'undefined' && window.location.protocol === 'http:');
-
-  if (prefersFetch && typeof fetch !== 'undefined') {
-    const { status, latency } = await probeViaFetch(url, timeoutMs);
-    return {
-      port: descriptor.port,
-      label: descriptor.label,
-      protocol: descriptor.protocol,
-      status,
-      latencyMs: latency,
-      method: 'fetch'
-    };
-  }
-
-  const { status, latency } = await probeViaImage(url, timeoutMs);
-  return {
-    port: descriptor.port,
-    label: descriptor.label,
-    protocol: descriptor.protocol,
-    status,
-    latencyMs: latency,
-    method: 'image'
-  };
-}
-
-async function probeHost(
-  ip: string,
-  ports: PortDescriptor[],
-  timeoutMs: number,
-  abortRef: MutableRefObject<boolean>
-): Promise<HostScanResult> {
-  const results: PortScanResult[] = [];
-
-  for (const descriptor of ports) {
-    if (abortRef.current) {
-      break;
-    }
-
-    try {
-      const portResult = await probePort(ip, descriptor, timeoutMs);
-      results.push(portResult);
-    } catch (error) {
-      results.push({
-        port: descriptor.port,
-        label: descriptor.label,
-        protocol: descriptor.protocol,
-        status: 'timeout',
-        latencyMs: null,
-        method: 'image'
-      });
-    }
-  }
+type HostUpdate = { kind: 'started'; ip: string } | { kind: 'done'; result: HostScanResult; progress: ScanProgress };
 
-  const reachable = results.some((entry) => entry.status === 'responsive');
+type ScanSnapshot = {
+  config: ScanConfig;
+  startedAt: number;
+  finishedAt: number | null;
+};
 
-  return {
-    ip,
-    ports: results,
-    reachable,
-    completedAt: Date.now()
-  };
-}
+const DEFAULT_TIMEOUT = 4000;
 
 export default function HomePage() {
+  const { m, format } = useI18n();
   const [mode, setMode] = useState<RangeMode>('cidr');
+  const [backend, setBackend] = useState<ScanBackend>('browser');
+  const [scenarioId, setScenarioId] = useState<SimulatedScenarioId | 'custom'>(DEFAULT_SCENARIO);
+  const [customScenario, setCustomScenario] = useState<{ name: string; scenario: SimulatedScenario } | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [fingerprint, setFingerprint] = useState(true);
+  const [identify, setIdentify] = useState(true);
   const [cidr, setCidr] = useState(resolveDefaultCidr);
   const [startIp, setStartIp] = useState('192.168.0.1');
   const [endIp, setEndIp] = useState('192.168.0.254');
   const [ports, setPorts] = useState<PortDescriptor[]>(DEFAULT_PORTS);
   const [timeoutMs, setTimeoutMs] = useState(DEFAULT_TIMEOUT);
+  const [speed, setSpeed] = useState<ScanSpeed>('normal');
+  const [retryTimeouts, setRetryTimeouts] = useState(false);
+  const [liveConcurrency, setLiveConcurrency] = useState<number | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [results, setResults] = useState<HostScanResult[]>([]);
-  const [progress, setProgress] = useState({ total: 0, completed: 0, reachable: 0 });
-  const abortRef = useRef(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [canPause, setCanPause] = useState(false);
+  const [calibration, setCalibration] = useState<TimingCalibration | null>(null);
+  const [progress, setProgress] = useState<ScanProgress>({ total: 0, completed: 0, reachable: 0 });
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<ScanSnapshot | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [scanningHosts, setScanningHosts] = useState<Set<string>>(() => new Set());
+  const [devices, setDevices] = useState<InventoryDevice[]>([]);
+  const [editingDevice, setEditingDevice] = useState<InventoryDraft | null>(null);
+  const [rules, setRules] = useState<DeviceRule[]>([]);
+  const [typeFilter, setTypeFilter] = useState<DeviceType | null>(null);
+  const [groupByType, setGroupByType] = useState(false);
+  const [policy, setPolicy] = useState<ScanPolicy>(DEFAULT_SCAN_POLICY);
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+  const engineRef = useRef<ScanRunner | null>(null);
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => engineRef.current?.cancel(), []);
+
+  useEffect(() => {
+    setDevices(loadInventory());
+    setRules(loadRules());
+  }, []);
 
-  const hostList = useMemo(() => {
-    if (mode === 'cidr') {
-      const range = cidrToRange(cidr);
-      if (!range) {
-        return [];
+  useEffect(() => {
+    const controller = new AbortController();
+    void fetchScanPolicy(controller.signal).then((loaded) => {
+      if (!controller.signal.aborted) {
+        setPolicy(loaded);
       }
-      return enumerateRange(range.start, range.end);
+    });
+    return () => controller.abort();
+  }, []);
+
+  const targets = useMemo((): { hosts: string[]; errors: string[] } => {
+    const localize = (result: TargetParseResult) => ({
+      hosts: result.hosts,
+      errors: result.errors.map((error) => m.targetErrors[error.code](error))
+    });
+
+    if (mode === 'cidr') {
+      return localize(parseTargets(cidr));
     }
 
-    if (!isValidIPv4(startIp) || !isValidIPv4(endIp)) {
-      return [];
+    const fieldErrors: string[] = [];
+    if (!isValidIP(startIp)) {
+      fieldErrors.push(m.page.invalidStartIp(startIp));
+    }
+    if (!isValidIP(endIp)) {
+      fieldErrors.push(m.page.invalidEndIp(endIp));
+    }
+    if (fieldErrors.length > 0) {
+      return { hosts: [], errors: fieldErrors };
     }
 
-    return enumerateRange(startIp, endIp);
-  }, [mode, cidr, startIp, endIp]);
+    return localize(parseTargets(`${startIp.trim()}-${endIp.trim()}`));
+  }, [mode, cidr, startIp, endIp, m]);
 
-  const togglePort = useCallback(
-    (descriptor: PortDescriptor) => {
-      setPorts((current) => {
-        const exists = current.some((item) => item.port === descriptor.port);
-        if (exists) {
-          return current.filter((item) => item.port !== descriptor.port);
-        }
-        return [...current, descriptor].sort((a, b) => a.port - b.port);
-      });
-    },
-    [setPorts]
+  const hostList = targets.hosts;
+  const targetExpression = mode === 'cidr' ? cidr : `${startIp.trim()}-${endIp.trim()}`;
+
+  const orderedPorts = useMemo(() => sortPorts(ports), [ports]);
+
+  const scenario =
+    (scenarioId === 'custom' ? customScenario?.scenario : SIMULATED_SCENARIOS[scenarioId]) ??
+    SIMULATED_SCENARIOS[DEFAULT_SCENARIO];
+
+  // Simulated probes never leave the browser, so the scope policy and the confirmation prompt do not apply to them.
+  const scope = useMemo(
+    () => (backend === 'simulated' ? { allowed: true, violations: [] } : checkScope(hostList, policy)),
+    [backend, hostList, policy]
+  );
+  const estimate = useMemo(
+    () => estimateScan(hostList.length, orderedPorts.length, timeoutMs, resolveTuning(speed, retryTimeouts), policy),
+    [hostList, orderedPorts, timeoutMs, speed, retryTimeouts, policy]
   );
 
   const reset = useCallback(() => {
-    abortRef.current = true;
+    engineRef.current?.cancel();
+    engineRef.current = null;
     setIsScanning(false);
+    setIsPaused(false);
     setResults([]);
+    setSnapshot(null);
     setProgress({ total: 0, completed: 0, reachable: 0 });
   }, []);
 
-  const handleScan = useCallback(async () => {
-    if (hostList.length === 0 || ports.length === 0) {
+  const togglePause = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine) {
+      return;
+    }
+    if (engine.status === 'paused') {
+      engine.resume();
+      setIsPaused(false);
       return;
     }
+    engine.pause();
+    setIsPaused(true);
+  }, []);
 
-    abortRef.current = false;
-    setIsScanning(true);
-    setResults([]);
-    setProgress({ total: hostList.length, completed: 0, reachable: 0 });
-
-    const orderedPorts = [...ports].sort((a, b) => a.port - b.port);
-    const concurrency = DEFAULT_CONCURRENCY;
-
-    const queue = [...hostList];
-    const active: Promise<void>[] = [];
-
-    const schedule = (ip: string) => {
-      const worker = (async () => {
-        const hostResult = await probeHost(ip, orderedPorts, timeoutMs, abortRef);
-        setResults((prev) => {
-          const next = [...prev, hostResult];
-          return next.sort((a, b) => {
-            if (a.reachable && !b.reachable) {
-              return -1;
-            }
-            if (!a.reachable && b.reachable) {
-              return 1;
-            }
-            return a.ip.localeCompare(b.ip, undefined, { numeric: true, sensitivity: 'base' });
-          });
-        });
-
-        setProgress((prev) => ({
-          total: prev.total || hostList.length,
-          completed: prev.completed + 1,
-          reachable: prev.reachable + (hostResult.reachable ? 1 : 0)
-        }));
-      })();
-
-      active.push(
-        worker.finally(() => {
-          const index = active.indexOf(worker);
-          if (index !== -1) {
-            active.splice(index, 1);
-          }
-        })
-      );
-    };
-
-    while (queue.length > 0 && !abortRef.current) {
-      while (active.length < concurrency && queue.length > 0) {
-        const ip = queue.shift();
-        if (ip) {
-          schedule(ip);
+  const runEngine = useCallback(
+    async (
+      engine: ScanRunner,
+      config: ScanConfig,
+      total: number,
+      { startedAt = Date.now(), record = true }: { startedAt?: number; record?: boolean } = {}
+    ): Promise<HostScanResult[] | null> => {
+      engineRef.current?.cancel();
+      engineRef.current = engine;
+
+      setIsScanning(true);
+      setIsPaused(false);
+      setCanPause(engine.supportsPause);
+      setResults([]);
+      setScanningHosts(new Set());
+      setCalibration(null);
+      setScanError(null);
+      setLiveConcurrency(null);
+      setSnapshot({ config, startedAt, finishedAt: null });
+      setProgress({ total, completed: 0, reachable: 0 });
+
+      engine.on('calibrated', ({ calibration: measured }) => {
+        setCalibration(measured);
+      });
+
+      engine.on('concurrency-changed', ({ concurrency }) => {
+        setLiveConcurrency(concurrency);
+      });
+
+      const inFlight = new Set<string>();
+      const batcher = createBatcher<HostUpdate>((batch) => {
+        if (engineRef.current !== engine) {
+          return;
         }
+        const done = batch.flatMap((update) => (update.kind === 'done' ? [update] : []));
+        setScanningHosts(new Set(inFlight));
+        if (done.length > 0) {
+          setResults((prev) => [...prev, ...done.map((update) => update.result)]);
+          setProgress(done[done.length - 1].progress);
+        }
+      });
+
+      engine.on('host-started', ({ ip }) => {
+        inFlight.add(ip);
+        batcher.push({ kind: 'started', ip });
+      });
+
+      engine.on('host-done', ({ result, progress: nextProgress }) => {
+        inFlight.delete(result.ip);
+        batcher.push({ kind: 'done', result, progress: nextProgress });
+      });
+
+      const settle = () => {
+        inFlight.clear();
+        batcher.flush();
+        setScanningHosts(new Set());
+        const finishedAt = Date.now();
+        setSnapshot((current) => (current ? { ...current, finishedAt } : current));
+        if (engineRef.current === engine) {
+          engineRef.current = null;
+          setIsScanning(false);
+          setIsPaused(false);
+        }
+        return finishedAt;
+      };
+
+      engine.on('finished', ({ results: finalResults, cancelled }) => {
+        const finishedAt = settle();
+        if (record && !cancelled && finalResults.length > 0) {
+          saveScan(createReport(config, finalResults, startedAt, finishedAt))
+            .then(() => setHistoryVersion((version) => version + 1))
+            .catch(() => undefined);
+        }
+      });
+
+      // The error itself surfaces through start() below; a failed run is never saved to history.
+      engine.on('failed', settle);
+
+      try {
+        const finalResults = await engine.start();
+        return engine.status === 'cancelled' ? null : finalResults;
+      } catch (error) {
+        setScanError(describeError(m, error, m.page.scanFailed));
+        return null;
       }
+    },
+    [m]
+  );
 
-      await Promise.race(active);
-    }
+  const handleScan = useCallback(
+    async ({ record = true }: { record?: boolean } = {}): Promise<HostScanResult[] | null> => {
+      setPendingAction(null);
+      if (hostList.length === 0 || orderedPorts.length === 0 || !scope.allowed) {
+        return null;
+      }
+
+      const engine: ScanRunner =
+        backend === 'server'
+          ? new ServerScanSession({
+              targets: targetExpression,
+              ports: orderedPorts,
+              timeoutMs,
+              speed,
+              retryTimeouts,
+              fingerprint,
+              identify,
+              // requestScan already asked for confirmation; the server still re-checks scope and rate caps.
+              confirmed: true
+            })
+          : backend === 'simulated'
+            ? new ScanEngine({
+                hosts: hostList,
+                ports: orderedPorts,
+                timeoutMs,
+                tuning: resolveTuning(speed, retryTimeouts),
+                prober: createSimulatedProber(scenario)
+              })
+            : new ScanEngine({
+                hosts: hostList,
+                ports: orderedPorts,
+                timeoutMs,
+                tuning: resolveTuning(speed, retryTimeouts),
+                maxProbesPerSecond: policy.maxProbesPerSecond
+              });
+      const config: ScanConfig = {
+        targets: targetExpression,
+        ports: orderedPorts,
+        timeoutMs,
+        backend,
+        speed,
+        retryTimeouts
+      };
+      return runEngine(engine, config, hostList.length, { record });
+    },
+    [
+      backend,
+      scenario,
+      fingerprint,
+      identify,
+      speed,
+      retryTimeouts,
+      targetExpression,
+      hostList,
+      orderedPorts,
+      timeoutMs,
+      scope,
+      policy,
+      runEngine
+    ]
+  );
+
+  const confirmThen = useCallback(
+    (action: () => void) => {
+      if (backend !== 'simulated' && requiresConfirmation(estimate, policy)) {
+        setPendingAction(() => action);
+        return;
+      }
+      action();
+    },
+    [backend, estimate, policy]
+  );
+
+  const requestScan = useCallback(() => confirmThen(() => void handleScan()), [confirmThen, handleScan]);
 
-    await Promise.all(active);
+  // Monitor ticks would fill IndexedDB with near-identical runs; the monitor timeline already keeps what changed.
+  const monitorScan = useCallback(() => handleScan({ record: false }), [handleScan]);
 
+  const followJob = useCallback(
+    (job: ScanJobSummary) => {
+      void runEngine(new ScanJobSession(job.id), job.config, job.progress.total, {
+        startedAt: job.startedAt ?? job.createdAt
+      });
+    },
+    [runEngine]
+  );
+
+  const loadScenarioFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const parsed = parseScenario(await file.text());
+    if (!parsed.ok) {
+      setScenarioError(m.page.scenarioErrors[parsed.code](parsed.path));
+      return;
+    }
+    setScenarioError(null);
+    setCustomScenario({ name: file.name, scenario: parsed.scenario });
+    setScenarioId('custom');
+  };
+
+  const importResults = useCallback((report: ScanReport) => {
+    engineRef.current?.cancel();
+    engineRef.current = null;
     setIsScanning(false);
-  }, [hostList, ports, timeoutMs]);
+    setIsPaused(false);
+    setCalibration(null);
+    setScanError(null);
+    setScanningHosts(new Set());
+    setSnapshot({ config: report.config, startedAt: report.startedAt, finishedAt: report.finishedAt });
+    setResults([...report.results].sort(compareHostResults));
+    setProgress(summarizeProgress(report.results));
+  }, []);
+
+  const report = useMemo(
+    () =>
+      snapshot
+        ? createReport(snapshot.config, results, snapshot.startedAt, snapshot.finishedAt ?? snapshot.startedAt)
+        : null,
+    [snapshot, results]
+  );
+
+  const tablePorts = snapshot?.config.ports ?? orderedPorts;
+  const showIdentity = hasIdentity(results);
+
+  const snapshotTargets = snapshot?.config.targets ?? null;
+  const plannedHosts = useMemo(() => {
+    if (snapshotTargets === null) {
+      return [];
+    }
+    const parsed = parseTargets(snapshotTargets);
+    return parsed.errors.length === 0 ? parsed.hosts : null;
+  }, [snapshotTargets]);
 
-  const responsiveHosts = useMemo(() => results.filter((entry) => entry.reachable), [results]);
+  const resultHosts = useMemo(() => (plannedHosts ? [] : results.map((host) => host.ip)), [plannedHosts, results]);
+  const mapHosts = plannedHosts ?? resultHosts;
+
+  const responsiveHosts = useMemo(
+    () => results.filter((entry) => entry.reachable).sort(compareHostResults),
+    [results]
+  );
+
+  const matches = useMemo(
+    () => new Map(results.map((host) => [host.ip, matchDevice(devices, host)] as const)),
+    [devices, results]
+  );
+
+  const classifications = useMemo(
+    () => new Map(results.map((host) => [host.ip, classifyHost(host, rules)] as const)),
+    [rules, results]
+  );
+
+  const highlightedGroups = useMemo((): { type: DeviceType | null; hosts: HostScanResult[] }[] => {
+    const hosts = typeFilter
+      ? responsiveHosts.filter((host) => classifications.get(host.ip)?.type === typeFilter)
+      : responsiveHosts;
+    return groupByType ? groupByDeviceType(hosts, classifications) : [{ type: null, hosts }];
+  }, [responsiveHosts, classifications, typeFilter, groupByType]);
+
+  const editHost = useCallback(
+    (host: HostScanResult) => setEditingDevice(draftFromHost(host, matches.get(host.ip)?.device ?? null)),
+    [matches]
+  );
+
+  const storeDevice = useCallback(
+    (draft: InventoryDraft) => {
+      const saved = saveDevice(devices, draft);
+      if (!saved.device) {
+        return m.page.inventoryInvalid;
+      }
+      setDevices(saved.devices);
+      setEditingDevice(null);
+      return null;
+    },
+    [devices, m]
+  );
+
+  const storeRule = useCallback(
+    (draft: DeviceRuleDraft) => {
+      const saved = saveRule(rules, draft);
+      setRules(saved.rules);
+      return saved.error;
+    },
+    [rules]
+  );
+
+  const removeDevice = useCallback(
+    (id: string) => {
+      setDevices(deleteDevice(devices, id));
+      setEditingDevice(null);
+    },
+    [devices]
+  );
 
   return (
     <main className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-10">
       <header className="flex flex-col gap-3">
-        <h1 className="text-3xl font-semibold tracking-tight text-cyan-300">
-          Scanner LAN Avançado
-        </h1>
-        <p className="max-w-3xl text-sm text-slate-300">
-          Descubra dispositivos ativos na sua rede local diretamente do navegador. Configure o intervalo de IPs,
-          ajuste os serviços desejados e acompanhe os resultados em tempo real. Para maior precisão, execute pelo
-          mesmo segmento da rede alvo.
-        </p>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-3xl font-semibold tracking-tight text-cyan-300">{m.page.title}</h1>
+          <LocaleSwitcher />
+        </div>
+        <p className="max-w-3xl text-sm text-slate-300">{m.page.intro}</p>
       </header>
 
       <section className="grid gap-6 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
         <div className="flex flex-wrap items-center gap-3 text-sm">
           <span className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 font-medium text-cyan-200">
-            Intervalo de IPs
+            {m.page.rangeMode}
           </span>
           <button
             type="button"
@@ -318,7 +505,7 @@ export default function HomePage() {
               mode === 'cidr' ? 'bg-cyan-500/80 text-slate-950' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
             }`}
           >
-            CIDR
+            {m.page.cidrMode}
           </button>
           <button
             type="button"
@@ -329,24 +516,157 @@ export default function HomePage() {
                 : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
             }`}
           >
-            Faixa Manual
+            {m.page.intervalMode}
           </button>
         </div>
 
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="rounded-full border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 font-medium text-cyan-200">
+            {m.page.engine}
+          </span>
+          <button
+            type="button"
+            onClick={() => setBackend('browser')}
+            disabled={isScanning}
+            className={`rounded-full px-3 py-1 font-medium transition ${
+              backend === 'browser'
+                ? 'bg-cyan-500/80 text-slate-950'
+                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {m.page.browserEngine}
+          </button>
+          <button
+            type="button"
+            onClick={() => setBackend('server')}
+            disabled={isScanning}
+            className={`rounded-full px-3 py-1 font-medium transition ${
+              backend === 'server'
+                ? 'bg-cyan-500/80 text-slate-950'
+                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {m.page.serverEngine}
+          </button>
+          <button
+            type="button"
+            onClick={() => setBackend('simulated')}
+            disabled={isScanning}
+            className={`rounded-full px-3 py-1 font-medium transition ${
+              backend === 'simulated'
+                ? 'bg-cyan-500/80 text-slate-950'
+                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {m.page.simulatedEngine}
+          </button>
+          <span className="text-xs text-slate-400">
+            {backend === 'server'
+              ? m.page.serverEngineHint
+              : backend === 'simulated'
+                ? m.page.simulatedEngineHint
+                : m.page.browserEngineHint}
+          </span>
+          {backend === 'simulated' ? (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              {m.page.scenario}
+              <select
+                value={scenarioId}
+                onChange={(event) => setScenarioId(event.target.value as SimulatedScenarioId | 'custom')}
+                disabled={isScanning}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-2 py-1 text-xs text-slate-200"
+              >
+                {(Object.keys(SIMULATED_SCENARIOS) as SimulatedScenarioId[]).map((option) => (
+                  <option key={option} value={option}>
+                    {m.page.scenarios[option]}
+                  </option>
+                ))}
+                {customScenario ? <option value="custom">{m.page.customScenario(customScenario.name)}</option> : null}
+              </select>
+            </label>
+          ) : null}
+          {backend === 'simulated' ? (
+            <button
+              type="button"
+              onClick={() => scenarioInputRef.current?.click()}
+              disabled={isScanning}
+              className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:opacity-50"
+            >
+              {m.page.loadScenario}
+            </button>
+          ) : null}
+          {backend === 'simulated' && scenarioError ? <span className="text-xs text-red-300">{scenarioError}</span> : null}
+          <input
+            ref={scenarioInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              void loadScenarioFile(event.target.files?.[0]);
+              event.target.value = '';
+            }}
+          />
+          {backend === 'simulated' ? (
+            <button
+              type="button"
+              onClick={() => {
+                setMode('cidr');
+                setCidr(scenario.targets);
+              }}
+              disabled={isScanning}
+              className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:opacity-50"
+            >
+              {m.page.useScenarioTargets}
+            </button>
+          ) : null}
+          {backend === 'server' ? (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={fingerprint}
+                onChange={(event) => setFingerprint(event.target.checked)}
+                disabled={isScanning}
+                className="accent-cyan-500"
+              />
+              {m.page.fingerprint}
+            </label>
+          ) : null}
+          {backend === 'server' ? (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={identify}
+                onChange={(event) => setIdentify(event.target.checked)}
+                disabled={isScanning}
+                className="accent-cyan-500"
+              />
+              {m.page.identify}
+            </label>
+          ) : null}
+        </div>
+
         {mode === 'cidr' ? (
           <div className="flex flex-col gap-2">
-            <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">Bloco CIDR</label>
-            <input
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.page.targets}</label>
+            <SubnetPicker
+              includeServer={backend === 'server'}
+              refreshKey={historyVersion}
+              onSelect={setCidr}
+              disabled={isScanning}
+            />
+            <textarea
               value={cidr}
               onChange={(event) => setCidr(event.target.value)}
-              placeholder="192.168.0.1/24"
-              className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+              placeholder="192.168.0.1/24, 10.0.0.1-50, !192.168.0.10"
+              rows={3}
+              className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-3 font-mono text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
             />
+            <p className="text-xs text-slate-400">{m.page.targetsHint}</p>
           </div>
         ) : (
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="flex flex-col gap-2">
-              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">IP Inicial</label>
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.page.startIp}</label>
               <input
                 value={startIp}
                 onChange={(event) => setStartIp(event.target.value)}
@@ -355,7 +675,7 @@ export default function HomePage() {
               />
             </div>
             <div className="flex flex-col gap-2">
-              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">IP Final</label>
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.page.endIp}</label>
               <input
                 value={endIp}
                 onChange={(event) => setEndIp(event.target.value)}
@@ -366,127 +686,205 @@ export default function HomePage() {
           </div>
         )}
 
-        <div className="grid gap-4">
-          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Serviços / Portas</span>
-          <div className="flex flex-wrap gap-3">
-            {DEFAULT_PORTS.map((descriptor) => {
-              const active = ports.some((item) => item.port === descriptor.port);
-              return (
-                <button
-                  key={descriptor.port}
-                  type="button"
-                  onClick={() => togglePort(descriptor)}
-                  className={`rounded-full border px-4 py-2 text-sm font-medium transition ${
-                    active
-                      ? 'border-cyan-400 bg-cyan-500/20 text-cyan-200 shadow shadow-cyan-500/20'
-                      : 'border-slate-700 bg-slate-900 text-slate-400 hover:border-cyan-400/60 hover:text-cyan-200'
-                  }`}
-                >
-                  {descriptor.label} · {descriptor.port}
-                </button>
-              );
-            })}
-          </div>
-          <p className="text-xs text-slate-400">
-            A varredura utiliza tentativas HTTP/HTTPS passivas para identificar dispositivos respondendo nessas portas.
-          </p>
-        </div>
+        {targets.errors.length > 0 || !scope.allowed ? (
+          <ul className="grid gap-1 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+            {targets.errors.map((message, index) => (
+              <li key={`${index}-${message}`}>{message}</li>
+            ))}
+            {scope.violations.map((violation) => (
+              <li key={violation.reason}>{m.scope[violation.reason](violation.count, violation.sample.join(', '))}</li>
+            ))}
+          </ul>
+        ) : null}
+
+        <PortSelector ports={ports} onChange={setPorts} disabled={isScanning} />
 
         <div className="grid gap-2 sm:grid-cols-2 sm:items-end">
-          <div className="flex flex-col gap-2">
-            <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">Timeout (ms)</label>
-            <input
-              type="number"
-              min={1000}
-              max={10000}
-              step={500}
-              value={timeoutMs}
-              onChange={(event) => setTimeoutMs(Number(event.target.value))}
-              className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
-            />
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.page.timeout}</label>
+              <input
+                type="number"
+                min={1000}
+                max={10000}
+                step={500}
+                value={timeoutMs}
+                onChange={(event) => setTimeoutMs(Number(event.target.value))}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.page.speed}</label>
+              <select
+                value={speed}
+                onChange={(event) => setSpeed(event.target.value as ScanSpeed)}
+                disabled={isScanning}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+              >
+                {(Object.keys(SCAN_SPEED_PRESETS) as ScanSpeed[]).map((option) => (
+                  <option key={option} value={option}>
+                    {m.speeds[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300 sm:col-span-2">
+              <input
+                type="checkbox"
+                checked={retryTimeouts}
+                onChange={(event) => setRetryTimeouts(event.target.checked)}
+                disabled={isScanning}
+                className="accent-cyan-500"
+              />
+              {m.page.retryTimeouts}
+            </label>
           </div>
 
           <div className="flex gap-3">
             <button
               type="button"
-              onClick={handleScan}
-              disabled={isScanning || hostList.length === 0 || ports.length === 0}
+              onClick={requestScan}
+              disabled={
+                isScanning || pendingAction !== null || hostList.length === 0 || ports.length === 0 || !scope.allowed
+              }
               className="flex-1 rounded-xl bg-cyan-500 px-6 py-3 text-sm font-semibold text-slate-950 shadow-lg shadow-cyan-500/30 transition hover:bg-cyan-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
             >
-              {isScanning ? 'Escaneando…' : 'Iniciar varredura'}
+              {isScanning ? (isPaused ? m.page.paused : m.page.scanning) : m.page.start}
             </button>
+            {isScanning && canPause ? (
+              <button
+                type="button"
+                onClick={togglePause}
+                className="rounded-xl border border-slate-700 bg-slate-900 px-5 py-3 text-sm font-semibold text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+              >
+                {isPaused ? m.page.resume : m.page.pause}
+              </button>
+            ) : null}
             <button
               type="button"
               onClick={() => {
-                if (isScanning) {
-                  abortRef.current = true;
-                }
+                setPendingAction(null);
                 reset();
               }}
               className="rounded-xl border border-slate-700 bg-slate-900 px-5 py-3 text-sm font-semibold text-slate-300 transition hover:border-red-400 hover:text-red-300"
             >
-              Cancelar
+              {m.common.cancel}
             </button>
           </div>
         </div>
 
+        {pendingAction ? (
+          <ScanConfirmation
+            estimate={estimate}
+            threshold={policy.confirmProbeThreshold}
+            onConfirm={() => {
+              setPendingAction(null);
+              pendingAction();
+            }}
+            onCancel={() => setPendingAction(null)}
+          />
+        ) : null}
+
         <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-300">
           <p className="font-mono text-xs text-slate-400">
-            Hosts no alvo: <span className="text-cyan-300">{hostList.length}</span>
+            {m.page.hostsInTarget} <span className="text-cyan-300">{format.number(hostList.length)}</span>
           </p>
+          {hostList.length > 0 && orderedPorts.length > 0 ? (
+            <p className="font-mono text-xs text-slate-400">
+              {m.scope.estimate} <span className="text-cyan-300">{m.scope.probes(estimate.probes)}</span>
+              {' · '}
+              {m.scope.upTo(format.duration(estimate.durationMs))}
+              {' · '}
+              {m.scope.rateCap(policy.maxProbesPerSecond)}
+            </p>
+          ) : null}
           <p className="font-mono text-xs text-slate-400">
-            Progresso: <span className="text-cyan-300">{progress.completed}</span>{' '}/ <span className="text-cyan-300">{progress.total}</span>
+            {m.page.progress} <span className="text-cyan-300">{format.number(progress.completed)}</span>{' '}/{' '}
+            <span className="text-cyan-300">{format.number(progress.total)}</span>
           </p>
           <p className="font-mono text-xs text-slate-400">
-            Respondendo: <span className="text-emerald-300">{progress.reachable}</span>
+            {m.page.responding} <span className="text-emerald-300">{format.number(progress.reachable)}</span>
           </p>
+          {liveConcurrency !== null ? (
+            <p className="font-mono text-xs text-slate-400">
+              {m.page.concurrency} <span className="text-cyan-300">{format.number(liveConcurrency)}</span>{' '}
+              {m.page.concurrencyUnit}
+            </p>
+          ) : null}
+          {scanError ? (
+            <p className="font-mono text-xs text-red-300">
+              {m.page.error} {scanError}
+            </p>
+          ) : null}
+          {calibration ? (
+            <p className="font-mono text-xs text-slate-400">
+              {m.page.calibration}{' '}
+              <span className="text-cyan-300">
+                {calibration.deadHostMs !== null ? format.latency(calibration.deadHostMs) : m.page.calibrationNoResponse}
+              </span>
+              {' · '}
+              {m.page.closedThreshold}{' '}
+              <span className="text-cyan-300">{format.latency(calibration.closedThresholdMs)}</span>
+            </p>
+          ) : null}
         </div>
       </section>
 
       <section className="grid gap-6">
         <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
-          <div className="mb-4 flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-cyan-200">Dispositivos em Destaque</h2>
-            <span className="text-xs text-slate-400">{responsiveHosts.length} detectado(s)</span>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-cyan-200">{m.page.highlighted}</h2>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+              <select
+                value={typeFilter ?? ''}
+                onChange={(event) => setTypeFilter((event.target.value || null) as DeviceType | null)}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-1.5 text-xs text-slate-200"
+              >
+                <option value="">{m.devices.anyType}</option>
+                {DEVICE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {DEVICE_ICONS[type]} {m.devices.types[type]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={groupByType}
+                  onChange={(event) => setGroupByType(event.target.checked)}
+                  className="accent-cyan-500"
+                />
+                {m.devices.groupByType}
+              </label>
+              <span className="text-slate-400">{m.page.detected(responsiveHosts.length)}</span>
+            </div>
           </div>
           {responsiveHosts.length === 0 ? (
-            <p className="text-sm text-slate-400">
-              Nenhum host respondeu dentro dos parâmetros definidos até o momento. Ajuste a faixa ou aumente o tempo de
-              espera para resultados mais abrangentes.
-            </p>
+            <p className="text-sm text-slate-400">{m.page.noResponsiveHosts}</p>
           ) : (
-            <div className="grid gap-4">
-              {responsiveHosts.map((host) => (
-                <article key={host.ip} className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 p-4 text-sm">
-                  <header className="mb-3 flex flex-wrap items-center gap-3">
-                    <span className="font-mono text-base font-semibold text-emerald-200">{host.ip}</span>
-                    <span className="rounded-full bg-emerald-500/20 px-3 py-1 text-xs uppercase tracking-wide text-emerald-200">
-                      ativo
-                    </span>
-                    <span className="text-[11px] uppercase tracking-wide text-emerald-300/80">
-                      atualizado {new Date(host.completedAt).toLocaleTimeString()}
-                    </span>
-                  </header>
-                  <ul className="flex flex-wrap gap-2">
-                    {host.ports.map((port) => (
-                      <li
-                        key={port.port}
-                        className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-xs font-medium ${
-                          port.status === 'responsive'
-                            ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-100'
-                            : 'border-slate-700 bg-slate-950 text-slate-400'
-                        }`}
-                      >
-                        <span>{port.label}</span>
-                        <span className="font-mono">:{port.port}</span>
-                        <span className="font-mono text-[11px] text-slate-400">{port.method}</span>
-                        {port.latencyMs !== null ? (
-                          <span className="font-mono text-[11px] text-slate-300">{Math.round(port.latencyMs)} ms</span>
-                        ) : null}
-                      </li>
-                    ))}
-                  </ul>
-                </article>
+            <div className="grid gap-6">
+              {highlightedGroups.every((group) => group.hosts.length === 0) ? (
+                <p className="text-sm text-slate-400">{m.resultsTable.noMatches}</p>
+              ) : null}
+              {highlightedGroups.map((group) => (
+                <div key={group.type ?? 'all'} className="grid gap-4">
+                  {group.type ? (
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-violet-200">
+                      <span aria-hidden>{DEVICE_ICONS[group.type]}</span>
+                      {m.devices.types[group.type]}
+                      <span className="text-xs font-normal text-slate-400">{m.page.detected(group.hosts.length)}</span>
+                    </h3>
+                  ) : null}
+                  {group.hosts.map((host) => (
+                    <HostCard
+                      key={host.ip}
+                      host={host}
+                      match={matches.get(host.ip) ?? null}
+                      classification={classifications.get(host.ip) ?? null}
+                      onEdit={() => editHost(host)}
+                    />
+                  ))}
+                </div>
               ))}
             </div>
           )}
@@ -494,64 +892,72 @@ export default function HomePage() {
 
         <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
           <div className="mb-4 flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-cyan-200">Todos os resultados</h2>
-            <span className="text-xs text-slate-400">{results.length} processado(s)</span>
+            <h2 className="text-lg font-semibold text-cyan-200">{m.page.subnetMap}</h2>
+            <span className="text-xs text-slate-400">{m.page.mapProgress(progress.completed, progress.total)}</span>
+          </div>
+          <SubnetMap
+            hosts={mapHosts}
+            results={results}
+            scanning={scanningHosts}
+            matches={matches}
+            classifications={classifications}
+            onEditHost={editHost}
+          />
+        </div>
+
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-baseline gap-3">
+              <h2 className="text-lg font-semibold text-cyan-200">{m.page.allResults}</h2>
+              <span className="text-xs text-slate-400">{m.page.processed(results.length)}</span>
+            </div>
+            <ResultsTransfer report={report} onImport={importResults} disabled={isScanning} />
           </div>
 
           {results.length === 0 ? (
-            <p className="text-sm text-slate-400">
-              A lista agregará todos os IPs analisados durante a varredura com o status de cada porta monitorada.
-            </p>
+            <p className="text-sm text-slate-400">{m.page.resultsEmpty}</p>
           ) : (
-            <div className="overflow-x-auto rounded-lg border border-slate-800">
-              <table className="min-w-full divide-y divide-slate-800 text-left text-sm">
-                <thead className="bg-slate-900/80 text-xs uppercase tracking-wide text-slate-400">
-                  <tr>
-                    <th className="px-4 py-3 font-semibold">IP</th>
-                    {ports
-                      .slice()
-                      .sort((a, b) => a.port - b.port)
-                      .map((port) => (
-                        <th key={port.port} className="px-4 py-3 font-semibold">
-                          {port.port}
-                        </th>
-                      ))}
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-900/60 bg-slate-950/60">
-                  {results.map((host) => (
-                    <tr key={host.ip} className="hover:bg-slate-900/50">
-                      <td className="px-4 py-3 font-mono text-slate-200">{host.ip}</td>
-                      {ports
-                        .slice()
-                        .sort((a, b) => a.port - b.port)
-                        .map((descriptor) => {
-                          const report = host.ports.find((entry) => entry.port === descriptor.port);
-                          return (
-                            <td key={descriptor.port} className="px-4 py-3">
-                              {report ? (
-                                <span
-                                  className={`rounded-full px-3 py-1 text-[11px] font-semibold uppercase tracking-wide ${
-                                    report.status === 'responsive'
-                                      ? 'bg-emerald-500/20 text-emerald-200'
-                                      : 'bg-slate-800 text-slate-400'
-                                  }`}
-                                >
-                                  {report.status === 'responsive' ? 'ativo' : 'n/d'}
-                                </span>
-                              ) : (
-                                <span className="text-xs text-slate-500">—</span>
-                              )}
-                            </td>
-                          );
-                        })}
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+            <ResultsTable
+              results={results}
+              matches={matches}
+              classifications={classifications}
+              ports={tablePorts}
+              showIdentity={showIdentity}
+              onEditHost={editHost}
+            />
           )}
         </div>
+
+        <DeviceInventory
+          devices={devices}
+          results={results}
+          editing={editingDevice}
+          onEdit={setEditingDevice}
+          onSave={storeDevice}
+          onDelete={removeDevice}
+        />
+
+        <DeviceRules
+          rules={rules}
+          onSave={storeRule}
+          onDelete={(id) => setRules(deleteRule(rules, id))}
+          onRestore={() => setRules(restoreBuiltInRules())}
+        />
+
+        <MonitorPanel
+          runScan={monitorScan}
+          scanKey={`${backend === 'simulated' ? scenarioId : backend}|${targetExpression}|${formatPortExpression(orderedPorts)}`}
+          targets={targetExpression}
+          ports={orderedPorts}
+          devices={devices}
+          busy={isScanning || pendingAction !== null}
+          canStart={hostList.length > 0 && orderedPorts.length > 0 && scope.allowed}
+          onStart={confirmThen}
+        />
+
+        <ScanJobs onFollow={followJob} disabled={isScanning} />
+
+        <ScanHistory version={historyVersion} onLoad={importResults} disabled={isScanning} />
       </section>
     </main>
   );
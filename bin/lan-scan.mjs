@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Installed as the `lan-scan` command; tsx compiles the TypeScript sources on the fly.
+import { tsImport } from 'tsx/esm/api';
+
+await tsImport('../scripts/lan-scan.ts', import.meta.url);
@@ -0,0 +1,236 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  missingExpectedDevices,
+  parseTags,
+  type InventoryDevice,
+  type InventoryDraft
+} from '@/lib/deviceInventory';
+import type { HostScanResult } from '@/lib/scanTypes';
+import { useI18n } from '@/components/I18nProvider';
+
+type DeviceInventoryProps = {
+  devices: InventoryDevice[];
+  results: HostScanResult[];
+  editing: InventoryDraft | null;
+  onEdit: (draft: InventoryDraft | null) => void;
+  onSave: (draft: InventoryDraft) => string | null;
+  onDelete: (id: string) => void;
+};
+
+const inputClassName =
+  'rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40';
+
+const EMPTY_DRAFT: InventoryDraft = { name: '', tags: [], notes: '', expected: true, ip: null, mac: null };
+
+function DeviceEditor({
+  draft,
+  onSave,
+  onCancel,
+  onDelete
+}: {
+  draft: InventoryDraft;
+  onSave: (draft: InventoryDraft) => string | null;
+  onCancel: () => void;
+  onDelete?: () => void;
+}) {
+  const { m } = useI18n();
+  const [name, setName] = useState(draft.name);
+  const [tags, setTags] = useState(draft.tags.join(', '));
+  const [notes, setNotes] = useState(draft.notes);
+  const [expected, setExpected] = useState(draft.expected);
+  const [ip, setIp] = useState(draft.ip ?? '');
+  const [mac, setMac] = useState(draft.mac ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setName(draft.name);
+    setTags(draft.tags.join(', '));
+    setNotes(draft.notes);
+    setExpected(draft.expected);
+    setIp(draft.ip ?? '');
+    setMac(draft.mac ?? '');
+    setError(null);
+  }, [draft]);
+
+  const submit = () => {
+    setError(
+      onSave({
+        id: draft.id,
+        name,
+        tags: parseTags(tags),
+        notes,
+        expected,
+        ip: ip.trim() || null,
+        mac: mac.trim() || null
+      })
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="grid gap-3 rounded-xl border border-cyan-500/30 bg-slate-950/60 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.inventory.name}
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={m.inventory.namePlaceholder}
+            className={`${inputClassName} font-normal normal-case`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.inventory.tags}
+          <input
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            placeholder={m.inventory.tagsPlaceholder}
+            className={`${inputClassName} font-normal normal-case`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.inventory.ip}
+          <input
+            value={ip}
+            onChange={(event) => setIp(event.target.value)}
+            placeholder="192.168.0.20"
+            className={`${inputClassName} font-mono font-normal normal-case`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.inventory.mac}
+          <input
+            value={mac}
+            onChange={(event) => setMac(event.target.value)}
+            placeholder="AA:BB:CC:DD:EE:FF"
+            className={`${inputClassName} font-mono font-normal normal-case`}
+          />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+        {m.inventory.notes}
+        <textarea
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          rows={2}
+          className={`${inputClassName} font-normal normal-case`}
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={expected}
+            onChange={(event) => setExpected(event.target.checked)}
+            className="accent-cyan-500"
+          />
+          {m.inventory.expected}
+        </label>
+        <div className="ml-auto flex gap-2">
+          {onDelete ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-400 transition hover:border-red-400 hover:text-red-300"
+            >
+              {m.common.delete}
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-300 transition hover:border-slate-500"
+          >
+            {m.common.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-3 py-1.5 text-xs font-medium text-cyan-200 transition hover:bg-cyan-500/20"
+          >
+            {m.common.save}
+          </button>
+        </div>
+      </div>
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+}
+
+export default function DeviceInventory({ devices, results, editing, onEdit, onSave, onDelete }: DeviceInventoryProps) {
+  const { m } = useI18n();
+  const missing = missingExpectedDevices(devices, results);
+  const missingIds = new Set(missing.map((device) => device.id));
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-cyan-200">{m.inventory.title}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400">{m.inventory.registered(devices.length)}</span>
+          <button
+            type="button"
+            onClick={() => onEdit(EMPTY_DRAFT)}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+          >
+            {m.inventory.add}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-4">
+        {editing ? (
+          <DeviceEditor
+            draft={editing}
+            onSave={onSave}
+            onCancel={() => onEdit(null)}
+            onDelete={editing.id ? () => onDelete(editing.id as string) : undefined}
+          />
+        ) : null}
+
+        {missing.length > 0 ? (
+          <p className="text-sm text-amber-200">
+            {m.inventory.missing(missing.length)}
+          </p>
+        ) : null}
+
+        {devices.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            {m.inventory.empty}
+          </p>
+        ) : (
+          <ul className="grid max-h-72 gap-2 overflow-y-auto">
+            {devices.map((device) => (
+              <li
+                key={device.id}
+                className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs"
+              >
+                <span className="font-semibold text-slate-200">{device.name || m.common.unnamed}</span>
+                <span className="font-mono text-slate-400">{device.ip ?? '—'}</span>
+                <span className="font-mono text-slate-500">{device.mac ?? '—'}</span>
+                {device.tags.map((tag) => (
+                  <span key={tag} className="rounded-full bg-slate-800 px-2 py-0.5 text-slate-300">
+                    {tag}
+                  </span>
+                ))}
+                {missingIds.has(device.id) ? (
+                  <span className="rounded-full bg-amber-500/15 px-2 py-0.5 text-amber-200">{m.inventory.absent}</span>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => onEdit(device)}
+                  className="ml-auto rounded-md border border-slate-700 px-2 py-1 text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+                >
+                  {m.inventory.edit}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEVICE_ICONS,
+  DEVICE_TYPES,
+  parseRulePorts,
+  type DeviceRule,
+  type DeviceRuleDraft,
+  type RuleErrorCode
+} from '@/lib/deviceClassification';
+import { useI18n } from '@/components/I18nProvider';
+
+type DeviceRulesProps = {
+  rules: DeviceRule[];
+  onSave: (draft: DeviceRuleDraft) => RuleErrorCode | null;
+  onDelete: (id: string) => void;
+  onRestore: () => void;
+};
+
+const inputClassName =
+  'rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40';
+
+const EMPTY_DRAFT: DeviceRuleDraft = { type: 'web-server', ports: [], exclusive: false, pattern: '', enabled: true };
+
+const RULE_TYPES = DEVICE_TYPES.filter((type): type is DeviceRule['type'] => type !== 'unknown');
+
+function RuleEditor({
+  draft,
+  onSave,
+  onCancel,
+  onDelete
+}: {
+  draft: DeviceRuleDraft;
+  onSave: (draft: DeviceRuleDraft) => RuleErrorCode | null;
+  onCancel: () => void;
+  onDelete?: () => void;
+}) {
+  const { m } = useI18n();
+  const [type, setType] = useState(draft.type);
+  const [ports, setPorts] = useState(draft.ports.join(' + '));
+  const [pattern, setPattern] = useState(draft.pattern);
+  const [exclusive, setExclusive] = useState(draft.exclusive);
+  const [error, setError] = useState<RuleErrorCode | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setType(draft.type);
+    setPorts(draft.ports.join(' + '));
+    setPattern(draft.pattern);
+    setExclusive(draft.exclusive);
+    setError(null);
+  }, [draft]);
+
+  const submit = () => {
+    const parsedPorts = parseRulePorts(ports);
+    if (!parsedPorts) {
+      setError('invalid-port');
+      return;
+    }
+    setError(onSave({ id: draft.id, type, ports: parsedPorts, pattern, exclusive, enabled: draft.enabled }));
+  };
+
+  return (
+    <div ref={containerRef} className="grid gap-3 rounded-xl border border-cyan-500/30 bg-slate-950/60 p-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.devices.rules.type}
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as DeviceRule['type'])}
+            className={`${inputClassName} font-normal normal-case`}
+          >
+            {RULE_TYPES.map((option) => (
+              <option key={option} value={option}>
+                {DEVICE_ICONS[option]} {m.devices.types[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.devices.rules.ports}
+          <input
+            value={ports}
+            onChange={(event) => setPorts(event.target.value)}
+            placeholder={m.devices.rules.portsPlaceholder}
+            className={`${inputClassName} font-mono font-normal normal-case`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.devices.rules.pattern}
+          <input
+            value={pattern}
+            onChange={(event) => setPattern(event.target.value)}
+            placeholder={m.devices.rules.patternPlaceholder}
+            className={`${inputClassName} font-mono font-normal normal-case`}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={exclusive}
+            onChange={(event) => setExclusive(event.target.checked)}
+            className="accent-cyan-500"
+          />
+          {m.devices.rules.exclusive}
+        </label>
+        <div className="ml-auto flex gap-2">
+          {onDelete ? (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-400 transition hover:border-red-400 hover:text-red-300"
+            >
+              {m.common.delete}
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-300 transition hover:border-slate-500"
+          >
+            {m.common.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-3 py-1.5 text-xs font-medium text-cyan-200 transition hover:bg-cyan-500/20"
+          >
+            {m.common.save}
+          </button>
+        </div>
+      </div>
+      {error ? <p className="text-xs text-red-300">{m.devices.rules.errors[error]}</p> : null}
+    </div>
+  );
+}
+
+export default function DeviceRules({ rules, onSave, onDelete, onRestore }: DeviceRulesProps) {
+  const { m } = useI18n();
+  const [editing, setEditing] = useState<DeviceRuleDraft | null>(null);
+
+  const save = (draft: DeviceRuleDraft) => {
+    const error = onSave(draft);
+    if (!error) {
+      setEditing(null);
+    }
+    return error;
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-cyan-200">{m.devices.rules.title}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400">{m.devices.rules.count(rules.length)}</span>
+          <button
+            type="button"
+            onClick={() => {
+              setEditing(null);
+              onRestore();
+            }}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-400 transition hover:border-red-400 hover:text-red-300"
+          >
+            {m.devices.rules.restore}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(EMPTY_DRAFT)}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+          >
+            {m.devices.rules.add}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-slate-400">{m.devices.rules.hint}</p>
+
+      <div className="grid gap-4">
+        {editing ? (
+          <RuleEditor
+            draft={editing}
+            onSave={save}
+            onCancel={() => setEditing(null)}
+            onDelete={
+              editing.id
+                ? () => {
+                    onDelete(editing.id as string);
+                    setEditing(null);
+                  }
+                : undefined
+            }
+          />
+        ) : null}
+
+        {rules.every((rule) => !rule.enabled) ? <p className="text-sm text-slate-400">{m.devices.rules.empty}</p> : null}
+
+        <ul className="grid max-h-72 gap-2 overflow-y-auto">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className={`flex flex-wrap items-center gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs ${
+                rule.enabled ? '' : 'opacity-50'
+              }`}
+            >
+              <label className="flex items-center gap-2 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(event) => onSave({ ...rule, enabled: event.target.checked })}
+                  aria-label={m.devices.rules.enabled}
+                  className="accent-cyan-500"
+                />
+                <span aria-hidden>{DEVICE_ICONS[rule.type]}</span>
+                <span className="font-semibold text-slate-200">{m.devices.types[rule.type]}</span>
+              </label>
+              <span className="font-mono text-slate-400">
+                {rule.ports.length > 0 ? rule.ports.join(' + ') : m.devices.rules.anyPort}
+                {rule.exclusive ? ` · ${m.devices.rules.exclusive.toLowerCase()}` : ''}
+              </span>
+              {rule.pattern ? <span className="font-mono text-slate-500">/{rule.pattern}/</span> : null}
+              <button
+                type="button"
+                onClick={() => setEditing(rule)}
+                className="ml-auto rounded-md border border-slate-700 px-2 py-1 text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+              >
+                {m.devices.rules.edit}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
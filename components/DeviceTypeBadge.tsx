@@ -0,0 +1,23 @@
+import type { DeviceClassification } from '@/lib/deviceClassification';
+import { useI18n } from '@/components/I18nProvider';
+
+type DeviceTypeBadgeProps = {
+  classification: DeviceClassification;
+};
+
+export default function DeviceTypeBadge({ classification }: DeviceTypeBadgeProps) {
+  const { m } = useI18n();
+  const { type, icon, rule, matchedText } = classification;
+
+  return (
+    <span
+      title={rule ? m.devices.explanation(rule, matchedText) : m.devices.noRule}
+      className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-[11px] font-semibold ${
+        rule ? 'bg-violet-500/15 text-violet-100' : 'bg-slate-800 text-slate-400'
+      }`}
+    >
+      <span aria-hidden>{icon}</span>
+      {m.devices.types[type]}
+    </span>
+  );
+}
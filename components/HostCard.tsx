@@ -0,0 +1,176 @@
+import type { DeviceClassification } from '@/lib/deviceClassification';
+import type { InventoryMatch } from '@/lib/deviceInventory';
+import { hostDisplayName } from '@/lib/hostResults';
+import type { HostIdentity, HostScanResult, PortScanResult } from '@/lib/scanTypes';
+import DeviceTypeBadge from '@/components/DeviceTypeBadge';
+import InventoryBadge from '@/components/InventoryBadge';
+import { useI18n } from '@/components/I18nProvider';
+
+type HostCardProps = {
+  host: HostScanResult;
+  match: InventoryMatch | null;
+  classification: DeviceClassification | null;
+  onEdit: () => void;
+};
+
+function EvidenceList({ port }: { port: PortScanResult }) {
+  const { m, format } = useI18n();
+  if (port.evidence.length === 0) {
+    return null;
+  }
+  const agreeing = port.evidence.filter((entry) => entry.status === port.status).length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-[11px]">
+      {port.evidence.map((entry) => (
+        <span
+          key={entry.method}
+          title={m.hostCard.evidence(
+            m.probeMethods[entry.method],
+            m.portStatus[entry.status],
+            format.percent(entry.confidence)
+          )}
+          className={`rounded-full px-2 py-0.5 font-mono ${
+            entry.status === port.status ? 'bg-emerald-500/20 text-emerald-200' : 'bg-slate-800 text-slate-500 line-through'
+          }`}
+        >
+          {m.probeMethods[entry.method]}
+        </span>
+      ))}
+      {port.evidence.length > 1 ? (
+        <span className="text-slate-400">{m.hostCard.agreement(agreeing, port.evidence.length)}</span>
+      ) : null}
+    </div>
+  );
+}
+
+function FingerprintDetails({ port }: { port: PortScanResult }) {
+  const { m, format } = useI18n();
+  const { fingerprint } = port;
+  if (!fingerprint) {
+    return null;
+  }
+
+  return (
+    <dl className="grid gap-1 border-t border-emerald-500/20 pt-2 text-[11px] text-slate-300">
+      {fingerprint.http ? (
+        <div className="flex flex-wrap gap-x-2">
+          <dt className="text-slate-500">HTTP</dt>
+          <dd className="font-mono">{fingerprint.http.status}</dd>
+          {fingerprint.http.title ? <dd className="text-emerald-100">“{fingerprint.http.title}”</dd> : null}
+          {fingerprint.http.server ? <dd className="font-mono text-slate-400">{fingerprint.http.server}</dd> : null}
+        </div>
+      ) : null}
+      {fingerprint.tls ? (
+        <div className="grid gap-0.5">
+          <div className="flex flex-wrap gap-x-2">
+            <dt className="text-slate-500">TLS</dt>
+            <dd className="font-mono">{fingerprint.tls.subject ?? '—'}</dd>
+          </div>
+          <div className="flex flex-wrap gap-x-2">
+            <dt className="text-slate-500">{m.hostCard.issuer}</dt>
+            <dd className="font-mono">{fingerprint.tls.issuer ?? '—'}</dd>
+          </div>
+          {fingerprint.tls.validTo ? (
+            <div className="flex flex-wrap gap-x-2">
+              <dt className="text-slate-500">{m.hostCard.expires}</dt>
+              <dd className="font-mono">{format.date(Date.parse(fingerprint.tls.validTo))}</dd>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      {fingerprint.banner ? (
+        <div className="flex flex-wrap gap-x-2">
+          <dt className="text-slate-500">Banner</dt>
+          <dd className="break-all font-mono">{fingerprint.banner}</dd>
+        </div>
+      ) : null}
+    </dl>
+  );
+}
+
+function IdentityDetails({ identity }: { identity: HostIdentity }) {
+  const { m } = useI18n();
+  const entries: [string, string | undefined][] = [
+    ['DNS', identity.hostname],
+    ['mDNS', identity.mdnsName],
+    ['NetBIOS', identity.netbiosName],
+    ['MAC', identity.mac],
+    [m.hostCard.vendor, identity.vendor]
+  ];
+
+  return (
+    <dl className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-300">
+      {entries
+        .filter((entry): entry is [string, string] => Boolean(entry[1]))
+        .map(([label, value]) => (
+          <div key={label} className="flex gap-1">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className={label === m.hostCard.vendor ? 'text-emerald-100' : 'font-mono'}>{value}</dd>
+          </div>
+        ))}
+    </dl>
+  );
+}
+
+export default function HostCard({ host, match, classification, onEdit }: HostCardProps) {
+  const { m, format } = useI18n();
+  const displayName = hostDisplayName(host.identity);
+
+  return (
+    <article className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 p-4 text-sm">
+      <header className="mb-3 flex flex-wrap items-center gap-3">
+        <span className="font-mono text-base font-semibold text-emerald-200">{host.ip}</span>
+        {displayName ? <span className="text-sm text-emerald-100">{displayName}</span> : null}
+        <InventoryBadge match={match} onClick={onEdit} />
+        {classification ? <DeviceTypeBadge classification={classification} /> : null}
+        <span className="rounded-full bg-emerald-500/20 px-3 py-1 text-xs uppercase tracking-wide text-emerald-200">
+          {m.hostCard.active}
+        </span>
+        <span className="text-[11px] uppercase tracking-wide text-emerald-300/80">
+          {m.hostCard.updatedAt(format.time(host.completedAt))}
+        </span>
+      </header>
+      {classification?.rule ? (
+        <p className="mb-3 text-[11px] text-violet-200/80">
+          {m.devices.explanation(classification.rule, classification.matchedText)}
+        </p>
+      ) : null}
+      {host.identity ? <IdentityDetails identity={host.identity} /> : null}
+      {match && (match.device.tags.length > 0 || match.device.notes) ? (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-[11px]">
+          {match.device.tags.map((tag) => (
+            <span key={tag} className="rounded-full bg-slate-800 px-2 py-0.5 text-slate-300">
+              {tag}
+            </span>
+          ))}
+          {match.device.notes ? <span className="text-slate-400">{match.device.notes}</span> : null}
+        </div>
+      ) : null}
+      <ul className="flex flex-wrap gap-2">
+        {host.ports.map((port) => (
+          <li
+            key={port.port}
+            className={`flex flex-col gap-2 rounded-lg border px-3 py-2 text-xs font-medium ${
+              port.status === 'open'
+                ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-100'
+                : 'border-slate-700 bg-slate-950 text-slate-400'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span>{port.label}</span>
+              <span className="font-mono">:{port.port}</span>
+              <span className="text-[11px] uppercase tracking-wide">{m.portStatus[port.status]}</span>
+              <span className="font-mono text-[11px] text-slate-400">{format.percent(port.confidence)}</span>
+              {port.latencyMs !== null ? (
+                <span className="font-mono text-[11px] text-slate-300">{format.latency(port.latencyMs)}</span>
+              ) : null}
+            </div>
+            <EvidenceList port={port} />
+            <FingerprintDetails port={port} />
+          </li>
+        ))}
+      </ul>
+    </article>
+  );
+}
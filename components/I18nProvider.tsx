@@ -0,0 +1,45 @@
+'use client';
+
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { createFormatters, localeCookie, MESSAGES, type Formatters, type Locale, type Messages } from '@/lib/i18n';
+
+type I18nContextValue = {
+  locale: Locale;
+  m: Messages;
+  format: Formatters;
+  setLocale: (locale: Locale) => void;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n(): I18nContextValue {
+  const value = useContext(I18nContext);
+  if (!value) {
+    throw new Error('useI18n must be used inside <I18nProvider>.');
+  }
+  return value;
+}
+
+export default function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = localeCookie(next);
+      document.documentElement.lang = next;
+      setLocaleState(next);
+      // Re-render the server layout so the document title and description follow the new locale.
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = useMemo(
+    () => ({ locale, m: MESSAGES[locale], format: createFormatters(locale), setLocale }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
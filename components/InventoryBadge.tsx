@@ -0,0 +1,31 @@
+import type { InventoryMatch } from '@/lib/deviceInventory';
+import { useI18n } from '@/components/I18nProvider';
+
+type InventoryBadgeProps = {
+  match: InventoryMatch | null;
+  onClick?: () => void;
+};
+
+export default function InventoryBadge({ match, onClick }: InventoryBadgeProps) {
+  const { m } = useI18n();
+  const className = match
+    ? 'bg-cyan-500/15 text-cyan-100 hover:bg-cyan-500/25'
+    : 'bg-amber-500/15 text-amber-200 hover:bg-amber-500/25';
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={
+        match
+          ? match.matchedBy === 'mac'
+            ? m.inventoryBadge.matchedByMac
+            : m.inventoryBadge.matchedByIp
+          : m.inventoryBadge.outsideInventory
+      }
+      className={`rounded-full px-3 py-1 text-[11px] font-semibold transition ${className}`}
+    >
+      {match ? match.device.name || m.common.unnamed : m.inventoryBadge.unknown}
+    </button>
+  );
+}
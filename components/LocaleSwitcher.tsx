@@ -0,0 +1,29 @@
+'use client';
+
+import { LOCALES, isLocale } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+export default function LocaleSwitcher() {
+  const { locale, m, setLocale } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-slate-400">
+      {m.locale.label}
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {
+            setLocale(event.target.value);
+          }
+        }}
+        className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-1.5 text-xs text-slate-200 outline-none transition focus:border-cyan-400"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {m.locale.names[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { matchDevice, type InventoryDevice } from '@/lib/deviceInventory';
+import { hostDisplayName } from '@/lib/hostResults';
+import {
+  appendTimeline,
+  clearTimeline,
+  DEFAULT_MONITOR_SETTINGS,
+  detectChanges,
+  isValidWebhookUrl,
+  loadMonitorSettings,
+  loadTimeline,
+  MONITOR_INTERVAL_OPTIONS,
+  postWebhook,
+  saveMonitorSettings,
+  type MonitorEvent,
+  type MonitorEventKind,
+  type MonitorSettings
+} from '@/lib/monitoring';
+import type { PortDescriptor } from '@/lib/ports';
+import type { ScanRun } from '@/lib/scanDiff';
+import type { HostScanResult } from '@/lib/scanTypes';
+import { useI18n } from '@/components/I18nProvider';
+
+type MonitorPanelProps = {
+  runScan: () => Promise<HostScanResult[] | null>;
+  scanKey: string;
+  targets: string;
+  ports: PortDescriptor[];
+  devices: InventoryDevice[];
+  busy: boolean;
+  canStart: boolean;
+  onStart: (start: () => void) => void;
+};
+
+type Baseline = { key: string; run: ScanRun };
+
+const NOTIFICATION_LINES = 3;
+
+const EVENT_STYLES: Record<MonitorEventKind, string> = {
+  'host-up': 'border-emerald-500/30 bg-emerald-500/10 text-emerald-100',
+  'host-down': 'border-red-500/30 bg-red-500/10 text-red-100',
+  'port-opened': 'border-amber-500/30 bg-amber-500/10 text-amber-100',
+  'port-closed': 'border-amber-500/30 bg-amber-500/10 text-amber-100'
+};
+
+function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export default function MonitorPanel({
+  runScan,
+  scanKey,
+  targets,
+  ports,
+  devices,
+  busy,
+  canStart,
+  onStart
+}: MonitorPanelProps) {
+  const { m, format } = useI18n();
+  const [settings, setSettings] = useState<MonitorSettings>(DEFAULT_MONITOR_SETTINGS);
+  const [timeline, setTimeline] = useState<MonitorEvent[]>([]);
+  const [active, setActive] = useState(false);
+  const [lastRunAt, setLastRunAt] = useState<number | null>(null);
+  const [nextRunAt, setNextRunAt] = useState<number | null>(null);
+  const [skipped, setSkipped] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission | null>(null);
+  const baselineRef = useRef<Baseline | null>(null);
+  const tickRef = useRef<() => Promise<void>>(async () => undefined);
+  const busyRef = useRef(busy);
+  busyRef.current = busy;
+
+  useEffect(() => {
+    setSettings(loadMonitorSettings());
+    setTimeline(loadTimeline());
+    setPermission(notificationsSupported() ? Notification.permission : null);
+  }, []);
+
+  // Monitoring is bound to the targets and ports it was started with; editing them stops it and drops the baseline.
+  useEffect(() => {
+    setActive(false);
+    baselineRef.current = null;
+  }, [scanKey]);
+
+  const updateSettings = (patch: Partial<MonitorSettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...patch };
+      saveMonitorSettings(next);
+      return next;
+    });
+  };
+
+  const webhookUrl = settings.webhookUrl.trim();
+  const webhookInvalid = webhookUrl !== '' && !isValidWebhookUrl(webhookUrl);
+
+  const nameOf = useCallback(
+    (host: HostScanResult) => matchDevice(devices, host)?.device.name || hostDisplayName(host.identity),
+    [devices]
+  );
+
+  const announce = (events: MonitorEvent[]) => {
+    if (!settings.notify || !notificationsSupported() || Notification.permission !== 'granted') {
+      return;
+    }
+    const lines = events.slice(0, NOTIFICATION_LINES).map((event) => m.monitor.describe[event.kind](event));
+    if (events.length > NOTIFICATION_LINES) {
+      lines.push(m.monitor.more(events.length - NOTIFICATION_LINES));
+    }
+    new Notification(m.monitor.notificationTitle(events.length), { body: lines.join('\n'), tag: 'lan-scanner-monitor' });
+  };
+
+  tickRef.current = async () => {
+    if (busyRef.current) {
+      setSkipped(true);
+      return;
+    }
+    setSkipped(false);
+    const results = await runScan();
+    if (!results) {
+      return;
+    }
+    const at = Date.now();
+    setLastRunAt(at);
+    const baseline = baselineRef.current;
+    const run: ScanRun = { config: { targets, ports }, results };
+    baselineRef.current = { key: scanKey, run };
+    if (!baseline || baseline.key !== scanKey) {
+      return;
+    }
+    const events = detectChanges(baseline.run, run, at, nameOf);
+    if (events.length === 0) {
+      return;
+    }
+    setTimeline((current) => appendTimeline(current, events));
+    announce(events);
+    if (webhookUrl && !webhookInvalid) {
+      void postWebhook(webhookUrl, { source: 'lan-scanner', targets, scannedAt: at, events });
+    }
+  };
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const intervalMs = settings.intervalMinutes * 60_000;
+
+    const tick = async () => {
+      await tickRef.current();
+      if (cancelled) {
+        return;
+      }
+      const next = Date.now() + intervalMs;
+      setNextRunAt(next);
+      timer = setTimeout(() => void tick(), intervalMs);
+    };
+
+    void tick();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setNextRunAt(null);
+    };
+  }, [active, settings.intervalMinutes]);
+
+  const start = () => {
+    if (settings.notify && notificationsSupported() && Notification.permission === 'default') {
+      void Notification.requestPermission().then(setPermission);
+    }
+    setSkipped(false);
+    setActive(true);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-cyan-200">{m.monitor.title}</h2>
+        <span className={`text-xs ${active ? 'text-emerald-300' : 'text-slate-400'}`}>
+          {active ? m.monitor.active : m.monitor.stopped}
+        </span>
+      </div>
+
+      <p className="mb-4 text-sm text-slate-400">{m.monitor.hint}</p>
+
+      <div className="grid gap-3 sm:grid-cols-[auto_1fr_auto] sm:items-end">
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.monitor.interval}
+          <select
+            value={settings.intervalMinutes}
+            onChange={(event) => updateSettings({ intervalMinutes: Number(event.target.value) })}
+            disabled={active}
+            className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs font-normal normal-case text-slate-200 disabled:opacity-50"
+          >
+            {MONITOR_INTERVAL_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {m.monitor.every(minutes)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+          {m.monitor.webhook}
+          <input
+            type="url"
+            value={settings.webhookUrl}
+            onChange={(event) => updateSettings({ webhookUrl: event.target.value })}
+            placeholder={m.monitor.webhookPlaceholder}
+            aria-invalid={webhookInvalid}
+            className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 font-mono text-xs font-normal normal-case text-slate-200"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={active ? () => setActive(false) : () => onStart(start)}
+          disabled={!active && !canStart}
+          className={
+            active
+              ? 'rounded-lg border border-slate-700 px-4 py-2 text-xs font-semibold text-slate-300 transition hover:border-red-400 hover:text-red-300'
+              : 'rounded-lg bg-cyan-500 px-4 py-2 text-xs font-semibold text-slate-950 transition hover:bg-cyan-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400'
+          }
+        >
+          {active ? m.monitor.stop : m.monitor.start}
+        </button>
+      </div>
+
+      <label className="mt-3 flex items-center gap-2 text-xs text-slate-300">
+        <input
+          type="checkbox"
+          checked={settings.notify}
+          onChange={(event) => updateSettings({ notify: event.target.checked })}
+          disabled={permission === null}
+          className="accent-cyan-500"
+        />
+        {m.monitor.notify}
+      </label>
+      {settings.notify && permission === 'denied' ? (
+        <p className="mt-1 text-xs text-amber-300">{m.monitor.notificationsBlocked}</p>
+      ) : null}
+      {webhookInvalid ? <p className="mt-1 text-xs text-red-300">{m.monitor.invalidWebhook}</p> : null}
+
+      <div className="mt-4 grid gap-1 font-mono text-xs text-slate-400">
+        {lastRunAt !== null ? (
+          <p>
+            {m.monitor.lastRun} <span className="text-cyan-300">{format.dateTime(lastRunAt)}</span>
+          </p>
+        ) : null}
+        {active && nextRunAt !== null ? (
+          <p>
+            {m.monitor.nextRun} <span className="text-cyan-300">{format.time(nextRunAt)}</span>
+          </p>
+        ) : null}
+        {active && skipped ? <p className="text-amber-300">{m.monitor.skipped}</p> : null}
+      </div>
+
+      <div className="mt-6 mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-cyan-200">{m.monitor.timeline}</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400">{m.monitor.events(timeline.length)}</span>
+          {timeline.length > 0 ? (
+            <button
+              type="button"
+              onClick={() => setTimeline(clearTimeline())}
+              className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-400 transition hover:border-red-400 hover:text-red-300"
+            >
+              {m.monitor.clear}
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-slate-400">{m.monitor.empty}</p>
+      ) : (
+        <ul className="grid max-h-72 gap-2 overflow-y-auto">
+          {timeline.map((event) => (
+            <li
+              key={event.id}
+              className={`flex flex-wrap items-center gap-3 rounded-lg border px-4 py-2 text-xs ${EVENT_STYLES[event.kind]}`}
+            >
+              <span className="font-mono opacity-70">{format.dateTime(event.at)}</span>
+              <span>{m.monitor.describe[event.kind](event)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_PORTS,
+  mergePorts,
+  parsePortExpression,
+  sortPorts,
+  type PortDescriptor,
+  type PortExpressionError
+} from '@/lib/ports';
+import {
+  BUILTIN_PORT_PROFILES,
+  deletePortProfile,
+  loadPortProfiles,
+  savePortProfile,
+  type PortProfile
+} from '@/lib/portProfiles';
+import { useI18n } from '@/components/I18nProvider';
+
+type PortSelectorProps = {
+  ports: PortDescriptor[];
+  onChange: (ports: PortDescriptor[]) => void;
+  disabled?: boolean;
+};
+
+export default function PortSelector({ ports, onChange, disabled = false }: PortSelectorProps) {
+  const { m } = useI18n();
+  const [profiles, setProfiles] = useState<PortProfile[]>(BUILTIN_PORT_PROFILES);
+  const [activeProfileId, setActiveProfileId] = useState<string>(BUILTIN_PORT_PROFILES[0].id);
+  const [catalog, setCatalog] = useState<PortDescriptor[]>(DEFAULT_PORTS);
+  const [expression, setExpression] = useState('');
+  const [expressionErrors, setExpressionErrors] = useState<PortExpressionError[]>([]);
+  const [profileName, setProfileName] = useState('');
+
+  useEffect(() => {
+    setProfiles(loadPortProfiles());
+  }, []);
+
+  const activeProfile = useMemo(
+    () => profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0],
+    [profiles, activeProfileId]
+  );
+
+  const selectProfile = useCallback(
+    (id: string) => {
+      const profile = profiles.find((entry) => entry.id === id);
+      if (!profile) {
+        return;
+      }
+      setActiveProfileId(profile.id);
+      setCatalog(profile.ports);
+      setProfileName(profile.builtin ? '' : profile.name);
+      onChange(profile.ports);
+    },
+    [profiles, onChange]
+  );
+
+  const togglePort = useCallback(
+    (descriptor: PortDescriptor) => {
+      const exists = ports.some((item) => item.port === descriptor.port);
+      if (exists) {
+        onChange(ports.filter((item) => item.port !== descriptor.port));
+        return;
+      }
+      onChange(sortPorts([...ports, descriptor]));
+    },
+    [ports, onChange]
+  );
+
+  const toggleProtocol = useCallback(
+    (descriptor: PortDescriptor) => {
+      const updated: PortDescriptor = {
+        ...descriptor,
+        protocol: descriptor.protocol === 'http' ? 'https' : 'http'
+      };
+      setCatalog((current) => mergePorts(current, [updated]));
+      if (ports.some((item) => item.port === descriptor.port)) {
+        onChange(mergePorts(ports, [updated]));
+      }
+    },
+    [ports, onChange]
+  );
+
+  const addFromExpression = useCallback(() => {
+    const { descriptors, errors } = parsePortExpression(expression);
+    setExpressionErrors(errors);
+    if (descriptors.length === 0) {
+      return;
+    }
+    setCatalog((current) => mergePorts(current, descriptors));
+    onChange(mergePorts(ports, descriptors));
+    if (errors.length === 0) {
+      setExpression('');
+    }
+  }, [expression, ports, onChange]);
+
+  const saveProfile = useCallback(() => {
+    if (!profileName.trim() || ports.length === 0) {
+      return;
+    }
+    const saved = savePortProfile(profiles, profileName, ports);
+    setProfiles(saved.profiles);
+    setActiveProfileId(saved.profile.id);
+  }, [profiles, profileName, ports]);
+
+  const removeProfile = useCallback(() => {
+    if (!activeProfile || activeProfile.builtin) {
+      return;
+    }
+    setProfiles(deletePortProfile(profiles, activeProfile.id));
+    setActiveProfileId(BUILTIN_PORT_PROFILES[0].id);
+    setProfileName('');
+  }, [profiles, activeProfile]);
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">{m.portSelector.title}</span>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeProfile?.id}
+            onChange={(event) => selectProfile(event.target.value)}
+            disabled={disabled}
+            className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-200 outline-none transition focus:border-cyan-400"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.builtin ? m.portSelector.builtinProfiles[profile.id] : profile.name}
+              </option>
+            ))}
+          </select>
+          {activeProfile && !activeProfile.builtin ? (
+            <button
+              type="button"
+              onClick={removeProfile}
+              disabled={disabled}
+              className="rounded-lg border border-slate-700 px-3 py-2 text-xs text-slate-400 transition hover:border-red-400 hover:text-red-300"
+            >
+              {m.portSelector.deleteProfile}
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {catalog.map((descriptor) => {
+          const active = ports.some((item) => item.port === descriptor.port);
+          return (
+            <div
+              key={descriptor.port}
+              className={`flex items-center overflow-hidden rounded-full border text-sm font-medium transition ${
+                active
+                  ? 'border-cyan-400 bg-cyan-500/20 text-cyan-200 shadow shadow-cyan-500/20'
+                  : 'border-slate-700 bg-slate-900 text-slate-400 hover:border-cyan-400/60 hover:text-cyan-200'
+              }`}
+            >
+              <button type="button" onClick={() => togglePort(descriptor)} disabled={disabled} className="px-4 py-2">
+                {descriptor.label} · {descriptor.port}
+              </button>
+              <button
+                type="button"
+                onClick={() => toggleProtocol(descriptor)}
+                disabled={disabled}
+                title={m.portSelector.toggleProtocol}
+                className="border-l border-slate-700/60 px-3 py-2 font-mono text-[11px] uppercase opacity-80 hover:opacity-100"
+              >
+                {descriptor.protocol}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+        <input
+          value={expression}
+          onChange={(event) => setExpression(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              addFromExpression();
+            }
+          }}
+          disabled={disabled}
+          placeholder="8000-8100, 9443/https"
+          className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-2 font-mono text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+        />
+        <button
+          type="button"
+          onClick={addFromExpression}
+          disabled={disabled || expression.trim().length === 0}
+          className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-4 py-2 text-sm font-medium text-cyan-200 transition hover:bg-cyan-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {m.portSelector.addPorts}
+        </button>
+      </div>
+
+      {expressionErrors.length > 0 ? (
+        <ul className="grid gap-1 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+          {expressionErrors.map((error, index) => (
+            <li key={`${error.code}-${error.token}-${index}`}>{m.portErrors[error.code](error)}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+        <input
+          value={profileName}
+          onChange={(event) => setProfileName(event.target.value)}
+          disabled={disabled}
+          placeholder={m.portSelector.profileNamePlaceholder}
+          className="rounded-lg border border-slate-700 bg-slate-950/80 px-4 py-2 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+        />
+        <button
+          type="button"
+          onClick={saveProfile}
+          disabled={disabled || profileName.trim().length === 0 || ports.length === 0}
+          className="rounded-lg border border-slate-700 bg-slate-900 px-4 py-2 text-sm font-medium text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {m.portSelector.saveProfile}
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        {m.portSelector.hint}
+      </p>
+    </div>
+  );
+}
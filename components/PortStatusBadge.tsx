@@ -0,0 +1,22 @@
+import type { PortScanResult, PortStatus } from '@/lib/scanTypes';
+import { useI18n } from '@/components/I18nProvider';
+
+export const PORT_STATUS_STYLES: Record<PortStatus, string> = {
+  open: 'bg-emerald-500/20 text-emerald-200',
+  closed: 'bg-slate-800 text-slate-300',
+  filtered: 'bg-amber-500/10 text-amber-200/80',
+  unknown: 'bg-slate-800 text-slate-500'
+};
+
+export default function PortStatusBadge({ report }: { report: PortScanResult }) {
+  const { m, format } = useI18n();
+
+  return (
+    <span
+      title={m.confidence(format.percent(report.confidence))}
+      className={`rounded-full px-3 py-1 text-[11px] font-semibold uppercase tracking-wide ${PORT_STATUS_STYLES[report.status]}`}
+    >
+      {m.portStatus[report.status]}
+    </span>
+  );
+}
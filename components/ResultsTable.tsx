@@ -0,0 +1,267 @@
+'use client';
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { DEVICE_ICONS, DEVICE_TYPES, type DeviceClassification, type DeviceType } from '@/lib/deviceClassification';
+import type { InventoryMatch } from '@/lib/deviceInventory';
+import { hostDisplayName } from '@/lib/hostResults';
+import type { PortDescriptor } from '@/lib/ports';
+import {
+  buildResultRow,
+  DEFAULT_RESULTS_SORT,
+  EMPTY_RESULTS_FILTER,
+  filterRows,
+  sortRows,
+  toggleSort,
+  type ResultsFilter,
+  type ResultsSort,
+  type ResultsSortKey
+} from '@/lib/resultsTable';
+import type { HostScanResult } from '@/lib/scanTypes';
+import DeviceTypeBadge from '@/components/DeviceTypeBadge';
+import InventoryBadge from '@/components/InventoryBadge';
+import PortStatusBadge from '@/components/PortStatusBadge';
+import { useI18n } from '@/components/I18nProvider';
+
+type ResultsTableProps = {
+  results: HostScanResult[];
+  matches: Map<string, InventoryMatch | null>;
+  classifications: Map<string, DeviceClassification | null>;
+  ports: PortDescriptor[];
+  showIdentity: boolean;
+  onEditHost: (host: HostScanResult) => void;
+};
+
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 560;
+const OVERSCAN = 8;
+
+function SortHeader({
+  label,
+  sortKey,
+  sort,
+  onSort
+}: {
+  label: string;
+  sortKey: ResultsSortKey;
+  sort: ResultsSort;
+  onSort: (key: ResultsSortKey) => void;
+}) {
+  const active = sort.key === sortKey;
+  return (
+    <th className="px-4 py-3 font-semibold">
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className={`flex items-center gap-1 uppercase tracking-wide transition hover:text-cyan-200 ${
+          active ? 'text-cyan-200' : ''
+        }`}
+      >
+        {label}
+        <span aria-hidden>{active ? (sort.direction === 'asc' ? '▲' : '▼') : '↕'}</span>
+      </button>
+    </th>
+  );
+}
+
+export default function ResultsTable({
+  results,
+  matches,
+  classifications,
+  ports,
+  showIdentity,
+  onEditHost
+}: ResultsTableProps) {
+  const { m, format } = useI18n();
+  const [sort, setSort] = useState<ResultsSort>(DEFAULT_RESULTS_SORT);
+  const [filter, setFilter] = useState<ResultsFilter>(EMPTY_RESULTS_FILTER);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const deferredFilter = useDeferredValue(filter);
+
+  const rows = useMemo(
+    () =>
+      results.map((host) => buildResultRow(host, matches.get(host.ip) ?? null, classifications.get(host.ip) ?? null)),
+    [results, matches, classifications]
+  );
+  const visibleRows = useMemo(
+    () => sortRows(filterRows(rows, deferredFilter), sort),
+    [rows, deferredFilter, sort]
+  );
+
+  useEffect(() => {
+    viewportRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [deferredFilter, sort]);
+
+  useEffect(
+    () => () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    },
+    []
+  );
+
+  const handleScroll = () => {
+    if (frameRef.current !== null) {
+      return;
+    }
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      setScrollTop(viewportRef.current?.scrollTop ?? 0);
+    });
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const columnCount = 5 + (showIdentity ? 3 : 0) + ports.length;
+  const changeSort = (key: ResultsSortKey) => setSort((current) => toggleSort(current, key));
+  const updateFilter = (patch: Partial<ResultsFilter>) => setFilter((current) => ({ ...current, ...patch }));
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+        <input
+          value={filter.query}
+          onChange={(event) => updateFilter({ query: event.target.value })}
+          placeholder={m.resultsTable.searchPlaceholder}
+          className="min-w-[16rem] flex-1 rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-200 outline-none transition focus:border-cyan-400 focus:ring-2 focus:ring-cyan-500/40"
+        />
+        <select
+          value={filter.openPort ?? ''}
+          onChange={(event) => updateFilter({ openPort: event.target.value ? Number(event.target.value) : null })}
+          className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-200"
+        >
+          <option value="">{m.resultsTable.anyPort}</option>
+          {ports.map((port) => (
+            <option key={port.port} value={port.port}>
+              {m.resultsTable.portOpen(port.port)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.deviceType ?? ''}
+          onChange={(event) => updateFilter({ deviceType: (event.target.value || null) as DeviceType | null })}
+          className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-200"
+        >
+          <option value="">{m.resultsTable.anyType}</option>
+          {DEVICE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {DEVICE_ICONS[type]} {m.devices.types[type]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filter.reachableOnly}
+            onChange={(event) => updateFilter({ reachableOnly: event.target.checked })}
+            className="accent-cyan-500"
+          />
+          {m.resultsTable.reachableOnly}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filter.unknownOnly}
+            onChange={(event) => updateFilter({ unknownOnly: event.target.checked })}
+            className="accent-cyan-500"
+          />
+          {m.resultsTable.unknownOnly}
+        </label>
+        <span className="ml-auto text-slate-400">{m.resultsTable.shown(visibleRows.length, rows.length)}</span>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={handleScroll}
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        className="overflow-auto rounded-lg border border-slate-800"
+      >
+        <table className="min-w-full text-left text-sm">
+          <thead className="sticky top-0 z-10 bg-slate-900 text-xs uppercase tracking-wide text-slate-400">
+            <tr>
+              <SortHeader label={m.resultsTable.ip} sortKey="ip" sort={sort} onSort={changeSort} />
+              <th className="px-4 py-3 font-semibold">{m.resultsTable.inventory}</th>
+              <th className="px-4 py-3 font-semibold">{m.resultsTable.type}</th>
+              <SortHeader label={m.resultsTable.latency} sortKey="latency" sort={sort} onSort={changeSort} />
+              <SortHeader label={m.resultsTable.openPorts} sortKey="openPorts" sort={sort} onSort={changeSort} />
+              {showIdentity ? (
+                <>
+                  <th className="px-4 py-3 font-semibold">{m.resultsTable.name}</th>
+                  <th className="px-4 py-3 font-semibold">{m.resultsTable.mac}</th>
+                  <th className="px-4 py-3 font-semibold">{m.resultsTable.vendor}</th>
+                </>
+              ) : null}
+              {ports.map((port) => (
+                <th key={port.port} className="px-4 py-3 font-semibold">
+                  {port.port}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-slate-950/60">
+            {start > 0 ? <tr style={{ height: start * ROW_HEIGHT }} aria-hidden /> : null}
+            {visibleRows.slice(start, end).map(({ host, match, classification, latencyMs, openPorts, portsByNumber }) => (
+              <tr
+                key={host.ip}
+                style={{ height: ROW_HEIGHT }}
+                className="whitespace-nowrap border-t border-slate-900/60 hover:bg-slate-900/50"
+              >
+                <td className="px-4 py-2 font-mono text-slate-200">{host.ip}</td>
+                <td className="px-4 py-2">
+                  {host.reachable || match ? (
+                    <InventoryBadge match={match} onClick={() => onEditHost(host)} />
+                  ) : (
+                    <span className="text-xs text-slate-500">—</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  {classification ? (
+                    <DeviceTypeBadge classification={classification} />
+                  ) : (
+                    <span className="text-xs text-slate-500">—</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 font-mono text-xs text-slate-300">
+                  {latencyMs !== null ? format.latency(latencyMs) : '—'}
+                </td>
+                <td className="px-4 py-2 font-mono text-xs text-slate-300">{openPorts}</td>
+                {showIdentity ? (
+                  <>
+                    <td className="px-4 py-2 text-xs text-slate-300">{hostDisplayName(host.identity) ?? '—'}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-slate-400">{host.identity?.mac ?? '—'}</td>
+                    <td className="px-4 py-2 text-xs text-slate-300">{host.identity?.vendor ?? '—'}</td>
+                  </>
+                ) : null}
+                {ports.map((descriptor) => {
+                  const portReport = portsByNumber.get(descriptor.port);
+                  return (
+                    <td key={descriptor.port} className="px-4 py-2">
+                      {portReport ? (
+                        <PortStatusBadge report={portReport} />
+                      ) : (
+                        <span className="text-xs text-slate-500">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {end < visibleRows.length ? (
+              <tr style={{ height: (visibleRows.length - end) * ROW_HEIGHT }} aria-hidden />
+            ) : null}
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-6 text-center text-sm text-slate-400">
+                  {m.resultsTable.noMatches}
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  exportReport,
+  importReport,
+  reportFilename,
+  type ExportFormat,
+  type ScanReport
+} from '@/lib/resultsExport';
+import { useI18n } from '@/components/I18nProvider';
+
+type ResultsTransferProps = {
+  report: ScanReport | null;
+  onImport: (report: ScanReport) => void;
+  disabled?: boolean;
+};
+
+function downloadText(filename: string, mime: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ResultsTransfer({ report, onImport, disabled = false }: ResultsTransferProps) {
+  const { m } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    if (!report) {
+      return;
+    }
+    downloadText(reportFilename(report, format), EXPORT_FORMATS[format].mime, exportReport(report, format));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const imported = importReport(await file.text());
+    if (!imported.ok) {
+      setImportError(m.importErrors[imported.code](imported.detail));
+      return;
+    }
+    setImportError(null);
+    onImport(imported.report);
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={disabled || !report || report.results.length === 0}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-1.5 text-xs font-medium text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-3 py-1.5 text-xs font-medium text-cyan-200 transition hover:bg-cyan-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {m.transfer.import}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,.xml,application/json,text/csv,application/xml,text/xml"
+          className="hidden"
+          onChange={(event) => {
+            void handleFile(event.target.files?.[0]);
+            event.target.value = '';
+          }}
+        />
+      </div>
+      {importError ? <p className="text-xs text-red-300">{importError}</p> : null}
+    </div>
+  );
+}
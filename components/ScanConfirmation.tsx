@@ -0,0 +1,42 @@
+import type { ScanEstimate } from '@/lib/scanPolicy';
+import { useI18n } from '@/components/I18nProvider';
+
+type ScanConfirmationProps = {
+  estimate: ScanEstimate;
+  threshold: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+export default function ScanConfirmation({ estimate, threshold, onConfirm, onCancel }: ScanConfirmationProps) {
+  const { m, format } = useI18n();
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="scan-confirmation-title"
+      className="grid gap-3 rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-100"
+    >
+      <h3 id="scan-confirmation-title" className="font-semibold text-amber-200">
+        {m.scope.confirmTitle}
+      </h3>
+      <p>{m.scope.confirmBody(estimate.probes, threshold, format.duration(estimate.durationMs))}</p>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-300 transition hover:border-slate-500"
+        >
+          {m.common.cancel}
+        </button>
+        <button
+          type="button"
+          onClick={onConfirm}
+          className="rounded-lg border border-amber-400/60 bg-amber-500/20 px-3 py-1.5 text-xs font-semibold text-amber-100 transition hover:bg-amber-500/30"
+        >
+          {m.scope.confirm}
+        </button>
+      </div>
+    </div>
+  );
+}
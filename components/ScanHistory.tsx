@@ -0,0 +1,222 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { diffScans, isEmptyDiff, type ScanDiff } from '@/lib/scanDiff';
+import { describeError } from '@/lib/scanErrors';
+import { deleteScan, listScans, loadScan, type ScanHistorySummary } from '@/lib/scanHistory';
+import type { ScanReport } from '@/lib/resultsExport';
+import type { Formatters } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+type ScanHistoryProps = {
+  version: number;
+  onLoad: (report: ScanReport) => void;
+  disabled?: boolean;
+};
+
+function formatRun(entry: ScanHistorySummary, format: Formatters): string {
+  return `${format.dateTime(entry.startedAt)} · ${entry.targets}`;
+}
+
+function DiffView({ diff }: { diff: ScanDiff }) {
+  const { m } = useI18n();
+
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-slate-400">{m.history.noChanges}</p>;
+  }
+
+  return (
+    <div className="grid gap-4 text-sm md:grid-cols-3">
+      <div className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 p-4">
+        <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-emerald-200">
+          {m.history.newHosts(diff.newHosts.length)}
+        </h3>
+        <ul className="grid gap-1 font-mono text-xs text-emerald-100">
+          {diff.newHosts.map((host) => (
+            <li key={host.ip}>{host.ip}</li>
+          ))}
+        </ul>
+      </div>
+      <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-4">
+        <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-red-200">
+          {m.history.missingHosts(diff.missingHosts.length)}
+        </h3>
+        <ul className="grid gap-1 font-mono text-xs text-red-100">
+          {diff.missingHosts.map((host) => (
+            <li key={host.ip}>{host.ip}</li>
+          ))}
+        </ul>
+      </div>
+      <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-4">
+        <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-amber-200">
+          {m.history.changedPorts(diff.portChanges.length)}
+        </h3>
+        <ul className="grid gap-1 text-xs text-amber-100">
+          {diff.portChanges.map((change) => (
+            <li key={`${change.ip}:${change.port}`} className="flex flex-wrap gap-2">
+              <span className="font-mono">
+                {change.ip}:{change.port}
+              </span>
+              <span>{change.label}</span>
+              <span className={change.change === 'opened' ? 'text-emerald-300' : 'text-red-300'}>
+                {change.change === 'opened' ? m.history.opened : m.history.closed}
+              </span>
+              <span className="text-amber-200/70">
+                ({change.before ? m.portStatus[change.before] : '—'} → {change.after ? m.portStatus[change.after] : '—'})
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default function ScanHistory({ version, onLoad, disabled = false }: ScanHistoryProps) {
+  const { m, format } = useI18n();
+  const [entries, setEntries] = useState<ScanHistorySummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ScanDiff | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await listScans();
+      setEntries(loaded);
+      setError(null);
+      setBaseId((current) => current ?? loaded[1]?.id ?? null);
+      setCompareId((current) => current ?? loaded[0]?.id ?? null);
+    } catch (reason) {
+      setError(describeError(m, reason, m.history.readFailed));
+    }
+  }, [m]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, version]);
+
+  // IndexedDB can fail at any step (private browsing, quota, a blocked upgrade); show it instead of losing it.
+  const attempt = (action: () => Promise<void>) => {
+    action().catch((reason: unknown) => setError(describeError(m, reason, m.history.readFailed)));
+  };
+
+  const open = async (id: number) => {
+    const report = await loadScan(id);
+    if (report) {
+      onLoad(report);
+    }
+  };
+
+  const remove = async (id: number) => {
+    await deleteScan(id);
+    setBaseId((current) => (current === id ? null : current));
+    setCompareId((current) => (current === id ? null : current));
+    setDiff(null);
+    await refresh();
+  };
+
+  const compare = async () => {
+    if (baseId === null || compareId === null) {
+      return;
+    }
+    const [before, after] = await Promise.all([loadScan(baseId), loadScan(compareId)]);
+    if (before && after) {
+      setDiff(diffScans(before, after));
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-cyan-200">{m.history.title}</h2>
+        <span className="text-xs text-slate-400">{m.history.saved(entries.length)}</span>
+      </div>
+
+      {error ? <p className="text-sm text-red-300">{error}</p> : null}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          {m.history.empty}
+        </p>
+      ) : (
+        <div className="grid gap-4">
+          <ul className="grid max-h-64 gap-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs"
+              >
+                <span className="font-mono text-slate-300">{formatRun(entry, format)}</span>
+                <span className="text-slate-400">
+                  <span className="text-emerald-300">{format.number(entry.reachable)}</span> / {format.number(entry.hosts)}{' '}
+                  {m.history.hostsUnit}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => attempt(() => open(entry.id))}
+                    disabled={disabled}
+                    className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:opacity-50"
+                  >
+                    {m.history.open}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => attempt(() => remove(entry.id))}
+                    className="rounded-md border border-slate-700 px-2 py-1 text-slate-400 transition hover:border-red-400 hover:text-red-300"
+                  >
+                    {m.common.delete}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid gap-2 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {m.history.base}
+              <select
+                value={baseId ?? ''}
+                onChange={(event) => setBaseId(event.target.value ? Number(event.target.value) : null)}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs font-normal normal-case text-slate-200"
+              >
+                <option value="">—</option>
+                {entries.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {formatRun(entry, format)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {m.history.compareWith}
+              <select
+                value={compareId ?? ''}
+                onChange={(event) => setCompareId(event.target.value ? Number(event.target.value) : null)}
+                className="rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs font-normal normal-case text-slate-200"
+              >
+                <option value="">—</option>
+                {entries.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {formatRun(entry, format)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() => attempt(() => compare())}
+              disabled={baseId === null || compareId === null || baseId === compareId}
+              className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-4 py-2 text-sm font-medium text-cyan-200 transition hover:bg-cyan-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {m.history.compare}
+            </button>
+          </div>
+
+          {diff ? <DiffView diff={diff} /> : null}
+        </div>
+      )}
+    </div>
+  );
+}
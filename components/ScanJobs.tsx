@@ -0,0 +1,122 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { cancelScanJob, isTerminalJob, listScanJobs, type ScanJobStatus, type ScanJobSummary } from '@/lib/scanJobs';
+import { describeError, formatScanError } from '@/lib/scanErrors';
+import { useI18n } from '@/components/I18nProvider';
+
+type ScanJobsProps = {
+  onFollow: (job: ScanJobSummary) => void;
+  disabled?: boolean;
+};
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<ScanJobStatus, string> = {
+  queued: 'text-slate-300',
+  running: 'text-cyan-300',
+  finished: 'text-emerald-300',
+  cancelled: 'text-slate-400',
+  failed: 'text-red-300'
+};
+
+export default function ScanJobs({ onFollow, disabled = false }: ScanJobsProps) {
+  const { m, format } = useI18n();
+  const [jobs, setJobs] = useState<ScanJobSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setJobs(await listScanJobs(signal));
+        setError(null);
+      } catch (reason) {
+        if (!signal?.aborted) {
+          setError(describeError(m, reason, m.jobs.readFailed));
+        }
+      }
+    },
+    [m]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void refresh(controller.signal);
+    const timer = setInterval(() => void refresh(controller.signal), REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [refresh]);
+
+  const cancel = async (id: string) => {
+    try {
+      await cancelScanJob(id);
+    } catch (reason) {
+      setError(describeError(m, reason, m.jobs.readFailed));
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-xl shadow-cyan-500/5">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-cyan-200">{m.jobs.title}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-400">{m.jobs.count(jobs.length)}</span>
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            className="rounded-md border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200"
+          >
+            {m.jobs.refresh}
+          </button>
+        </div>
+      </div>
+
+      {error ? <p className="text-sm text-red-300">{error}</p> : null}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-slate-400">{m.jobs.empty}</p>
+      ) : (
+        <ul className="grid max-h-64 gap-2 overflow-y-auto">
+          {jobs.map((job) => (
+            <li
+              key={job.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-950/60 px-4 py-2 text-xs"
+            >
+              <span className="font-mono text-slate-300">
+                {format.dateTime(job.createdAt)} · {job.config.targets}
+              </span>
+              <span className={STATUS_STYLES[job.status]}>{m.jobs.statuses[job.status]}</span>
+              <span className="font-mono text-slate-400">
+                {format.number(job.progress.completed)} / {format.number(job.progress.total)} ·{' '}
+                <span className="text-emerald-300">{format.number(job.progress.reachable)}</span>
+              </span>
+              {job.error ? <span className="basis-full text-red-300">{formatScanError(m, job.error)}</span> : null}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onFollow(job)}
+                  disabled={disabled}
+                  className="rounded-md border border-slate-700 px-2 py-1 text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:opacity-50"
+                >
+                  {isTerminalJob(job.status) ? m.jobs.open : m.jobs.follow}
+                </button>
+                {isTerminalJob(job.status) ? null : (
+                  <button
+                    type="button"
+                    onClick={() => void cancel(job.id)}
+                    className="rounded-md border border-slate-700 px-2 py-1 text-slate-400 transition hover:border-red-400 hover:text-red-300"
+                  >
+                    {m.jobs.cancel}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
+import type { DeviceClassification } from '@/lib/deviceClassification';
+import type { InventoryMatch } from '@/lib/deviceInventory';
+import { fastestOpenLatency } from '@/lib/hostResults';
+import {
+  BLOCK_COLUMNS,
+  BLOCK_SIZE,
+  buildSubnetBlocks,
+  cellAddress,
+  cellColor,
+  LATENCY_LEGEND_GRADIENT,
+  LATENCY_LEGEND_RANGE,
+  MAP_CELL_COLORS,
+  resolveCellState,
+  type SubnetBlock
+} from '@/lib/subnetMap';
+import type { HostScanResult } from '@/lib/scanTypes';
+import HostCard from '@/components/HostCard';
+import { useI18n } from '@/components/I18nProvider';
+
+type SubnetMapProps = {
+  hosts: string[];
+  results: HostScanResult[];
+  scanning: Set<string>;
+  matches: Map<string, InventoryMatch | null>;
+  classifications: Map<string, DeviceClassification | null>;
+  onEditHost: (host: HostScanResult) => void;
+};
+
+const CELL_SIZE = 12;
+const CELL_GAP = 2;
+const BLOCK_PIXELS = BLOCK_COLUMNS * (CELL_SIZE + CELL_GAP) - CELL_GAP;
+
+function BlockCanvas({
+  block,
+  resultsByIp,
+  scanning,
+  selectedIp,
+  onSelect
+}: {
+  block: SubnetBlock;
+  resultsByIp: Map<string, HostScanResult>;
+  scanning: Set<string>;
+  selectedIp: string | null;
+  onSelect: (ip: string) => void;
+}) {
+  const { m, format } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hoverLabel, setHoverLabel] = useState('');
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.clearRect(0, 0, BLOCK_PIXELS, BLOCK_PIXELS);
+    for (let offset = 0; offset < BLOCK_SIZE; offset += 1) {
+      const ip = cellAddress(block, offset);
+      const result = resultsByIp.get(ip);
+      const state = resolveCellState(block.targeted.has(offset), result, scanning.has(ip));
+      const x = (offset % BLOCK_COLUMNS) * (CELL_SIZE + CELL_GAP);
+      const y = Math.floor(offset / BLOCK_COLUMNS) * (CELL_SIZE + CELL_GAP);
+      context.fillStyle = cellColor(state, result);
+      context.fillRect(x, y, CELL_SIZE, CELL_SIZE);
+      if (ip === selectedIp) {
+        context.strokeStyle = '#f8fafc';
+        context.lineWidth = 2;
+        context.strokeRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+      }
+    }
+  }, [block, resultsByIp, scanning, selectedIp]);
+
+  const offsetAt = (event: MouseEvent<HTMLCanvasElement>): number | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor(((event.clientX - rect.left) / rect.width) * BLOCK_COLUMNS);
+    const row = Math.floor(((event.clientY - rect.top) / rect.height) * BLOCK_COLUMNS);
+    if (column < 0 || row < 0 || column >= BLOCK_COLUMNS || row >= BLOCK_COLUMNS) {
+      return null;
+    }
+    return row * BLOCK_COLUMNS + column;
+  };
+
+  const describe = (offset: number): string => {
+    const ip = cellAddress(block, offset);
+    const result = resultsByIp.get(ip);
+    const state = resolveCellState(block.targeted.has(offset), result, scanning.has(ip));
+    const latency = result ? fastestOpenLatency(result) : null;
+    return `${ip} · ${m.subnetMap.cells[state]}${latency !== null ? ` · ${format.latency(latency)}` : ''}`;
+  };
+
+  return (
+    <figure className="flex flex-col gap-2">
+      <figcaption className="flex justify-between font-mono text-xs text-slate-400">
+        <span>{block.label}</span>
+        <span className="text-slate-500">{hoverLabel}</span>
+      </figcaption>
+      <canvas
+        ref={canvasRef}
+        width={BLOCK_PIXELS}
+        height={BLOCK_PIXELS}
+        title={hoverLabel}
+        onMouseMove={(event) => {
+          const offset = offsetAt(event);
+          setHoverLabel(offset === null ? '' : describe(offset));
+        }}
+        onMouseLeave={() => setHoverLabel('')}
+        onClick={(event) => {
+          const offset = offsetAt(event);
+          if (offset !== null && block.targeted.has(offset)) {
+            onSelect(cellAddress(block, offset));
+          }
+        }}
+        className="cursor-pointer rounded-md bg-slate-950"
+        style={{ width: BLOCK_PIXELS, height: BLOCK_PIXELS }}
+      />
+    </figure>
+  );
+}
+
+export default function SubnetMap({
+  hosts,
+  results,
+  scanning,
+  matches,
+  classifications,
+  onEditHost
+}: SubnetMapProps) {
+  const { m, format } = useI18n();
+  const [selectedIp, setSelectedIp] = useState<string | null>(null);
+  const blocks = useMemo(() => buildSubnetBlocks(hosts), [hosts]);
+  const resultsByIp = useMemo(() => new Map(results.map((host) => [host.ip, host] as const)), [results]);
+  const selected = selectedIp ? resultsByIp.get(selectedIp) : undefined;
+
+  useEffect(() => {
+    setSelectedIp(null);
+  }, [hosts]);
+
+  if (blocks.length === 0) {
+    return <p className="text-sm text-slate-400">{m.subnetMap.empty}</p>;
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        {(['pending', 'scanning', 'silent'] as const).map((state) => (
+          <span key={state} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: MAP_CELL_COLORS[state] }} />
+            {m.subnetMap.cells[state]}
+          </span>
+        ))}
+        <span className="flex items-center gap-2">
+          {m.subnetMap.cells.responsive}
+          <span className="font-mono">{format.latency(LATENCY_LEGEND_RANGE.fast)}</span>
+          <span className="h-3 w-24 rounded-sm" style={{ backgroundImage: LATENCY_LEGEND_GRADIENT }} />
+          <span className="font-mono">≥ {format.latency(LATENCY_LEGEND_RANGE.slow)}</span>
+        </span>
+      </div>
+
+      <div className="flex max-h-[640px] flex-wrap gap-6 overflow-y-auto">
+        {blocks.map((block) => (
+          <BlockCanvas
+            key={block.key}
+            block={block}
+            resultsByIp={resultsByIp}
+            scanning={scanning}
+            selectedIp={selectedIp}
+            onSelect={setSelectedIp}
+          />
+        ))}
+      </div>
+
+      {selectedIp ? (
+        selected?.reachable ? (
+          <HostCard
+            host={selected}
+            match={matches.get(selected.ip) ?? null}
+            classification={classifications.get(selected.ip) ?? null}
+            onEdit={() => onEditHost(selected)}
+          />
+        ) : (
+          <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-300">
+            <span className="font-mono">{selectedIp}</span>{' '}
+            {selected
+              ? m.subnetMap.silentHost(selected.ports.length)
+              : scanning.has(selectedIp)
+                ? m.subnetMap.scanningHost
+                : m.subnetMap.pendingHost}
+          </div>
+        )
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Messages } from '@/lib/i18n';
+import {
+  discoverLocalSubnets,
+  FALLBACK_CIDR,
+  mergeCandidates,
+  recentSubnets,
+  type SubnetCandidate
+} from '@/lib/subnetDiscovery';
+import { useI18n } from '@/components/I18nProvider';
+
+type SubnetPickerProps = {
+  includeServer: boolean;
+  refreshKey: number;
+  onSelect: (cidr: string) => void;
+  disabled?: boolean;
+};
+
+function describeCandidate(candidate: SubnetCandidate, m: Messages): string {
+  const source = m.subnetPicker.sources[candidate.source];
+  return candidate.detail ? `${candidate.cidr} — ${source} (${candidate.detail})` : `${candidate.cidr} — ${source}`;
+}
+
+export default function SubnetPicker({ includeServer, refreshKey, onSelect, disabled = false }: SubnetPickerProps) {
+  const { m } = useI18n();
+  const [local, setLocal] = useState<SubnetCandidate[]>([]);
+  const [recent, setRecent] = useState<SubnetCandidate[]>([]);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  const detect = useCallback(async () => {
+    setIsDetecting(true);
+    try {
+      setLocal(await discoverLocalSubnets(includeServer));
+    } finally {
+      setIsDetecting(false);
+    }
+  }, [includeServer]);
+
+  useEffect(() => {
+    void detect();
+  }, [detect]);
+
+  // A saved scan only adds a history entry; it should not restart WebRTC gathering.
+  useEffect(() => {
+    let active = true;
+    void recentSubnets().then((candidates) => {
+      if (active) {
+        setRecent(candidates);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  const candidates = useMemo(
+    () => mergeCandidates([...local, ...recent, { cidr: FALLBACK_CIDR, source: 'default' }]),
+    [local, recent]
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value=""
+        onChange={(event) => {
+          if (event.target.value) {
+            onSelect(event.target.value);
+          }
+        }}
+        disabled={disabled || candidates.length === 0}
+        className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950/80 px-3 py-2 font-mono text-xs text-slate-200 disabled:opacity-50"
+      >
+        <option value="">
+          {isDetecting ? m.subnetPicker.detecting : m.subnetPicker.detected(candidates.length)}
+        </option>
+        {candidates.map((candidate) => (
+          <option key={candidate.cidr} value={candidate.cidr}>
+            {describeCandidate(candidate, m)}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => void detect()}
+        disabled={disabled || isDetecting}
+        className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-medium text-slate-300 transition hover:border-cyan-400 hover:text-cyan-200 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {m.subnetPicker.redetect}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { classifyObservation, combineEvidence, deriveClosedThreshold, type ProbeOutcomeKind } from './portClassification';
+import { urlHost } from './ipRange';
+import type { PortDescriptor, PortProtocol } from './ports';
+import { ScanError } from './scanErrors';
+import type {
+  PortScanResult,
+  ProbeContext,
+  ProbeEvidence,
+  ProbeMethod,
+  Prober,
+  TimingCalibration
+} from './scanTypes';
+
+export const CALIBRATION_DEAD_HOST = '192.0.2.1';
+export const CALIBRATION_DEAD_PORT = 9;
+
+type RawProbeOutcome = {
+  outcome: ProbeOutcomeKind;
+  elapsedMs: number;
+};
+
+export type BrowserProbeStrategy = {
+  method: ProbeMethod;
+  available: (scheme: PortProtocol) => boolean;
+  // Resolves to null when the browser refuses to even attempt the probe, which says nothing about the port.
+  run: (url: string, timeoutMs: number, signal: AbortSignal) => Promise<RawProbeOutcome | null>;
+};
+
+export async function probeViaFetch(
+  url: string,
+  timeoutMs: number,
+  signal: AbortSignal,
+  method: 'GET' | 'HEAD' = 'GET'
+): Promise<RawProbeOutcome> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal.addEventListener('abort', forwardAbort, { once: true });
+  const start = performance.now();
+
+  try {
+    await fetch(url, {
+      method,
+      mode: 'no-cors',
+      cache: 'no-store',
+      signal: controller.signal
+    });
+    return { outcome: 'success', elapsedMs: performance.now() - start };
+  } catch {
+    return { outcome: timedOut ? 'timeout' : 'error', elapsedMs: performance.now() - start };
+  } finally {
+    clearTimeout(timeout);
+    signal.removeEventListener('abort', forwardAbort);
+  }
+}
+
+export async function probeViaImage(url: string, timeoutMs: number, signal: AbortSignal): Promise<RawProbeOutcome> {
+  return new Promise<RawProbeOutcome>((resolve) => {
+    const img = new Image();
+    const start = performance.now();
+    let settled = false;
+
+    const finalize = (outcome: ProbeOutcomeKind) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', onAbort);
+      img.onload = null;
+      img.onerror = null;
+      resolve({ outcome, elapsedMs: performance.now() - start });
+    };
+
+    const onAbort = () => {
+      img.src = '';
+      finalize('timeout');
+    };
+
+    const timeoutId = setTimeout(() => {
+      finalize('timeout');
+    }, timeoutMs);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    img.onload = () => {
+      finalize('success');
+    };
+    img.onerror = () => {
+      finalize('error');
+    };
+
+    img.src = `${url.replace(/\?$/, '')}?v=${Math.random().toString(36).slice(2)}`;
+  });
+}
+
+export async function probeViaWebSocket(
+  url: string,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<RawProbeOutcome | null> {
+  const start = performance.now();
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url.replace(/^http/, 'ws'));
+  } catch {
+    return null;
+  }
+
+  return new Promise<RawProbeOutcome>((resolve) => {
+    let settled = false;
+
+    const finalize = (outcome: ProbeOutcomeKind) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', onAbort);
+      socket.onopen = null;
+      socket.onerror = null;
+      socket.close();
+      resolve({ outcome, elapsedMs: performance.now() - start });
+    };
+
+    const onAbort = () => finalize('timeout');
+    const timeoutId = setTimeout(() => finalize('timeout'), timeoutMs);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    socket.onopen = () => finalize('success');
+    socket.onerror = () => finalize('error');
+  });
+}
+
+function pageAllows(scheme: PortProtocol): boolean {
+  // Mixed-content rules block plain-HTTP fetch and ws:// requests from an HTTPS page before they reach the network.
+  return scheme === 'https' || (typeof window !== 'undefined' && window.location.protocol === 'http:');
+}
+
+export const BROWSER_PROBE_STRATEGIES: BrowserProbeStrategy[] = [
+  {
+    method: 'fetch',
+    available: (scheme) => typeof fetch !== 'undefined' && pageAllows(scheme),
+    run: (url, timeoutMs, signal) => probeViaFetch(url, timeoutMs, signal)
+  },
+  {
+    method: 'fetch-head',
+    available: (scheme) => typeof fetch !== 'undefined' && pageAllows(scheme),
+    run: (url, timeoutMs, signal) => probeViaFetch(url, timeoutMs, signal, 'HEAD')
+  },
+  {
+    method: 'image',
+    available: () => typeof Image !== 'undefined',
+    run: probeViaImage
+  },
+  {
+    method: 'websocket',
+    available: (scheme) => typeof WebSocket !== 'undefined' && pageAllows(scheme),
+    run: probeViaWebSocket
+  }
+];
+
+export async function calibrateBrowserTiming(timeoutMs: number, signal: AbortSignal): Promise<TimingCalibration> {
+  // An HTTPS page blocks plain http before it leaves the browser, which would time a refusal instead of the dead host.
+  const scheme: PortProtocol = pageAllows('http') ? 'http' : 'https';
+  const dead = await probeViaFetch(`${scheme}://${CALIBRATION_DEAD_HOST}:${CALIBRATION_DEAD_PORT}`, timeoutMs, signal);
+  const deadHostMs = dead.outcome === 'error' ? dead.elapsedMs : null;
+
+  let referenceRttMs: number | null = null;
+  if (typeof window !== 'undefined') {
+    const reference = await probeViaFetch(`${window.location.origin}/?calibration=${Date.now()}`, timeoutMs, signal);
+    referenceRttMs = reference.outcome === 'success' ? reference.elapsedMs : null;
+  }
+
+  return {
+    deadHostMs,
+    referenceRttMs,
+    closedThresholdMs: deriveClosedThreshold(deadHostMs, referenceRttMs),
+    sampledAt: Date.now()
+  };
+}
+
+export async function probePort(
+  ip: string,
+  descriptor: PortDescriptor,
+  context: ProbeContext,
+  strategies: BrowserProbeStrategy[] = BROWSER_PROBE_STRATEGIES
+): Promise<PortScanResult> {
+  const { timeoutMs, signal, calibration } = context;
+  const url = `${descriptor.protocol}://${urlHost(ip)}:${descriptor.port}`;
+  const applicable = strategies.filter((strategy) => strategy.available(descriptor.protocol));
+  if (applicable.length === 0) {
+    throw new ScanError({ code: 'no-probe-strategy' });
+  }
+
+  const observations = await Promise.all(
+    applicable.map(async (strategy) => ({ method: strategy.method, raw: await strategy.run(url, timeoutMs, signal) }))
+  );
+  const evidence = observations.flatMap(({ method, raw }): ProbeEvidence[] => {
+    if (!raw) {
+      return [];
+    }
+    const verdict = classifyObservation({ method, outcome: raw.outcome, elapsedMs: raw.elapsedMs, timeoutMs }, calibration);
+    return [{ method, ...verdict, latencyMs: raw.outcome === 'timeout' ? null : raw.elapsedMs }];
+  });
+  const verdict = combineEvidence(evidence);
+  const latencies = evidence
+    .filter((entry) => entry.status === verdict.status)
+    .map((entry) => entry.latencyMs)
+    .filter((latency): latency is number => latency !== null);
+
+  return {
+    port: descriptor.port,
+    label: descriptor.label,
+    protocol: descriptor.protocol,
+    status: verdict.status,
+    confidence: verdict.confidence,
+    latencyMs: latencies.length > 0 ? Math.min(...latencies) : null,
+    evidence
+  };
+}
+
+export const BROWSER_PROBER: Prober = {
+  probe: probePort,
+  calibrate: calibrateBrowserTiming
+};
@@ -0,0 +1,267 @@
+import { isOpen } from './portClassification';
+import { isValidPort } from './ports';
+import type { HostScanResult, PortScanResult } from './scanTypes';
+
+export type DeviceType =
+  | 'router'
+  | 'printer'
+  | 'camera'
+  | 'nas'
+  | 'media'
+  | 'windows'
+  | 'linux-server'
+  | 'web-server'
+  | 'unknown';
+
+export type DeviceRule = {
+  id: string;
+  type: Exclude<DeviceType, 'unknown'>;
+  ports: number[];
+  // Only matches when the rule's ports are the host's only responsive ports.
+  exclusive: boolean;
+  // Case-insensitive regular expression tested against HTTP titles, server headers, TLS subjects and banners.
+  pattern: string;
+  enabled: boolean;
+};
+
+export type DeviceRuleDraft = Omit<DeviceRule, 'id'> & { id?: string };
+
+export type RuleErrorCode = 'empty' | 'invalid-port' | 'invalid-pattern';
+
+export type DeviceClassification = {
+  type: DeviceType;
+  icon: string;
+  rule: DeviceRule | null;
+  matchedText: string | null;
+};
+
+export type DeviceGroup = { type: DeviceType; hosts: HostScanResult[] };
+
+const STORAGE_KEY = 'lan-scanner:device-rules';
+
+export const DEVICE_TYPES: DeviceType[] = [
+  'router',
+  'printer',
+  'camera',
+  'nas',
+  'media',
+  'windows',
+  'linux-server',
+  'web-server',
+  'unknown'
+];
+
+export const DEVICE_ICONS: Record<DeviceType, string> = {
+  router: '📡',
+  printer: '🖨️',
+  camera: '📷',
+  nas: '🗄️',
+  media: '📺',
+  windows: '🪟',
+  'linux-server': '🐧',
+  'web-server': '🌐',
+  unknown: '❔'
+};
+
+const builtIn = (id: string, type: DeviceRule['type'], ports: number[], pattern = '', exclusive = false): DeviceRule => ({
+  id: `builtin-${id}`,
+  type,
+  ports,
+  exclusive,
+  pattern,
+  enabled: true
+});
+
+export const BUILT_IN_RULES: DeviceRule[] = [
+  builtIn('printer-ports', 'printer', [9100, 631]),
+  builtIn('camera-ports', 'camera', [554, 80]),
+  builtIn('nas-ports', 'nas', [445, 5000]),
+  builtIn('windows-ports', 'windows', [445, 3389]),
+  builtIn('cast-ports', 'media', [8008, 8443]),
+  builtIn('router-ports', 'router', [53, 80]),
+  builtIn('printer-banner', 'printer', [], 'printer|laserjet|officejet|jetdirect|\\bipp\\b|cups'),
+  builtIn('camera-banner', 'camera', [], 'camera|ipcam|webcam|hikvision|dahua|\\bnvr\\b'),
+  builtIn('nas-banner', 'nas', [], 'synology|diskstation|qnap|truenas|\\bnas\\b'),
+  builtIn('router-banner', 'router', [], 'router|gateway|openwrt|dd-wrt|mikrotik|routeros'),
+  builtIn('ssh-only', 'linux-server', [22], '', true),
+  builtIn('raw-print', 'printer', [9100]),
+  builtIn('rtsp', 'camera', [554]),
+  builtIn('rdp', 'windows', [3389]),
+  builtIn('cast', 'media', [8008]),
+  builtIn('http', 'web-server', [80]),
+  builtIn('https', 'web-server', [443])
+];
+
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    let compiled: RegExp | null = null;
+    try {
+      compiled = new RegExp(pattern, 'i');
+    } catch {
+      compiled = null;
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return patternCache.get(pattern) ?? null;
+}
+
+function fingerprintTexts(port: PortScanResult): string[] {
+  const { fingerprint } = port;
+  return [fingerprint?.http?.title, fingerprint?.http?.server, fingerprint?.tls?.subject, fingerprint?.banner].filter(
+    (text): text is string => Boolean(text)
+  );
+}
+
+// More conditions make a rule more specific; among equally specific rules the earlier one wins.
+function specificity(rule: DeviceRule): number {
+  return rule.ports.length + (rule.pattern ? 1 : 0) + (rule.exclusive ? 1 : 0);
+}
+
+function matchRule(rule: DeviceRule, openPorts: Set<number>, texts: string[]): { matchedText: string | null } | null {
+  if (rule.ports.length === 0 && !rule.pattern) {
+    return null;
+  }
+  if (!rule.ports.every((port) => openPorts.has(port))) {
+    return null;
+  }
+  if (rule.exclusive && openPorts.size !== new Set(rule.ports).size) {
+    return null;
+  }
+  if (!rule.pattern) {
+    return { matchedText: null };
+  }
+  const regex = compilePattern(rule.pattern);
+  const matchedText = regex ? texts.find((text) => regex.test(text)) : undefined;
+  return matchedText ? { matchedText } : null;
+}
+
+export function classifyHost(host: HostScanResult, rules: DeviceRule[]): DeviceClassification | null {
+  if (!host.reachable) {
+    return null;
+  }
+  const open = host.ports.filter((port) => isOpen(port.status));
+  const openPorts = new Set(open.map((port) => port.port));
+  const texts = open.flatMap(fingerprintTexts);
+  const candidates = rules
+    .filter((rule) => rule.enabled)
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => specificity(b.rule) - specificity(a.rule) || a.index - b.index);
+
+  for (const { rule } of candidates) {
+    const match = matchRule(rule, openPorts, texts);
+    if (match) {
+      return { type: rule.type, icon: DEVICE_ICONS[rule.type], rule, matchedText: match.matchedText };
+    }
+  }
+  return { type: 'unknown', icon: DEVICE_ICONS.unknown, rule: null, matchedText: null };
+}
+
+export function groupByDeviceType(
+  hosts: HostScanResult[],
+  classifications: Map<string, DeviceClassification | null>
+): DeviceGroup[] {
+  const groups = new Map<DeviceType, HostScanResult[]>();
+  hosts.forEach((host) => {
+    const type = classifications.get(host.ip)?.type ?? 'unknown';
+    groups.set(type, [...(groups.get(type) ?? []), host]);
+  });
+  return DEVICE_TYPES.filter((type) => groups.has(type)).map((type) => ({ type, hosts: groups.get(type) ?? [] }));
+}
+
+export function parseRulePorts(value: string): number[] | null {
+  const parts = value.split(/[\s,+]+/).filter(Boolean);
+  const ports = parts.map(Number);
+  return ports.every(isValidPort) ? Array.from(new Set(ports)) : null;
+}
+
+export function validateRule(draft: DeviceRuleDraft): RuleErrorCode | null {
+  if (!draft.ports.every(isValidPort)) {
+    return 'invalid-port';
+  }
+  if (draft.pattern && !compilePattern(draft.pattern)) {
+    return 'invalid-pattern';
+  }
+  return draft.ports.length === 0 && !draft.pattern ? 'empty' : null;
+}
+
+function isDeviceType(value: unknown): value is DeviceRule['type'] {
+  return typeof value === 'string' && value !== 'unknown' && (DEVICE_TYPES as string[]).includes(value);
+}
+
+function sanitizeRule(value: unknown): DeviceRule | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const entry = value as Partial<DeviceRule>;
+  if (typeof entry.id !== 'string' || !isDeviceType(entry.type) || !Array.isArray(entry.ports)) {
+    return null;
+  }
+  const rule: DeviceRule = {
+    id: entry.id,
+    type: entry.type,
+    ports: entry.ports.filter((port) => typeof port === 'number'),
+    exclusive: entry.exclusive === true,
+    pattern: typeof entry.pattern === 'string' ? entry.pattern.trim() : '',
+    enabled: entry.enabled !== false
+  };
+  return validateRule(rule) ? null : rule;
+}
+
+function writeRules(rules: DeviceRule[]) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function loadRules(): DeviceRule[] {
+  if (typeof window === 'undefined') {
+    return BUILT_IN_RULES;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return BUILT_IN_RULES;
+    }
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.map(sanitizeRule).filter((rule): rule is DeviceRule => rule !== null)
+      : BUILT_IN_RULES;
+  } catch {
+    return BUILT_IN_RULES;
+  }
+}
+
+export function saveRule(rules: DeviceRule[], draft: DeviceRuleDraft): { rules: DeviceRule[]; error: RuleErrorCode | null } {
+  const rule: DeviceRule = {
+    ...draft,
+    id: draft.id ?? `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    pattern: draft.pattern.trim()
+  };
+  const error = validateRule(rule);
+  if (error) {
+    return { rules, error };
+  }
+
+  const exists = rules.some((entry) => entry.id === rule.id);
+  // New rules go first so they win over built-ins of the same specificity.
+  const next = exists ? rules.map((entry) => (entry.id === rule.id ? rule : entry)) : [rule, ...rules];
+  writeRules(next);
+  return { rules: next, error: null };
+}
+
+export function deleteRule(rules: DeviceRule[], id: string): DeviceRule[] {
+  const next = rules.filter((rule) => rule.id !== id);
+  writeRules(next);
+  return next;
+}
+
+export function restoreBuiltInRules(): DeviceRule[] {
+  if (typeof window !== 'undefined') {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+  return BUILT_IN_RULES;
+}
@@ -0,0 +1,151 @@
+import { hostDisplayName } from './hostResults';
+import { normalizeAddress } from './ipRange';
+import { normalizeMac } from './ouiVendors';
+import type { HostScanResult } from './scanTypes';
+
+export type InventoryDevice = {
+  id: string;
+  name: string;
+  tags: string[];
+  notes: string;
+  expected: boolean;
+  ip: string | null;
+  mac: string | null;
+  updatedAt: number;
+};
+
+export type InventoryDraft = Omit<InventoryDevice, 'id' | 'updatedAt'> & { id?: string };
+
+export type InventoryMatch = { device: InventoryDevice; matchedBy: 'mac' | 'ip' };
+
+const STORAGE_KEY = 'lan-scanner:inventory';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function sanitizeDevice(value: unknown): InventoryDevice | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const entry = value as Partial<InventoryDevice>;
+  const ip = normalizeAddress(readString(entry.ip));
+  const mac = normalizeMac(readString(entry.mac));
+  if (typeof entry.id !== 'string' || (!ip && !mac)) {
+    return null;
+  }
+  return {
+    id: entry.id,
+    name: readString(entry.name).trim(),
+    tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter((tag) => typeof tag === 'string').join(',')) : [],
+    notes: readString(entry.notes),
+    expected: entry.expected === true,
+    ip,
+    mac,
+    updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : 0
+  };
+}
+
+export function parseTags(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+export function loadInventory(): InventoryDevice[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.map(sanitizeDevice).filter((device): device is InventoryDevice => device !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeInventory(devices: InventoryDevice[]) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(devices));
+}
+
+export function saveDevice(
+  devices: InventoryDevice[],
+  draft: InventoryDraft
+): { devices: InventoryDevice[]; device: InventoryDevice | null } {
+  const device = sanitizeDevice({
+    ...draft,
+    id: draft.id ?? `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    updatedAt: Date.now()
+  });
+  if (!device) {
+    return { devices, device: null };
+  }
+
+  const exists = devices.some((entry) => entry.id === device.id);
+  const next = exists ? devices.map((entry) => (entry.id === device.id ? device : entry)) : [...devices, device];
+  writeInventory(next);
+  return { devices: next, device };
+}
+
+export function deleteDevice(devices: InventoryDevice[], id: string): InventoryDevice[] {
+  const next = devices.filter((device) => device.id !== id);
+  writeInventory(next);
+  return next;
+}
+
+export function matchDevice(devices: InventoryDevice[], host: HostScanResult): InventoryMatch | null {
+  const mac = host.identity?.mac ? normalizeMac(host.identity.mac) : null;
+  if (mac) {
+    const byMac = devices.find((device) => device.mac === mac);
+    if (byMac) {
+      return { device: byMac, matchedBy: 'mac' };
+    }
+  }
+
+  // An IP match is ignored when both sides know a MAC and they differ: the address was reassigned.
+  const byIp = devices.find((device) => device.ip === host.ip && (!device.mac || !mac || device.mac === mac));
+  return byIp ? { device: byIp, matchedBy: 'ip' } : null;
+}
+
+export function draftFromHost(host: HostScanResult, existing: InventoryDevice | null): InventoryDraft {
+  if (existing) {
+    return {
+      ...existing,
+      ip: host.ip,
+      mac: existing.mac ?? host.identity?.mac ?? null
+    };
+  }
+  return {
+    name: hostDisplayName(host.identity) ?? '',
+    tags: [],
+    notes: '',
+    expected: true,
+    ip: host.ip,
+    mac: host.identity?.mac ?? null
+  };
+}
+
+export function missingExpectedDevices(devices: InventoryDevice[], results: HostScanResult[]): InventoryDevice[] {
+  const scanned = new Set(results.map((host) => host.ip));
+  const seen = new Set(
+    results
+      .filter((host) => host.reachable)
+      .map((host) => matchDevice(devices, host)?.device.id)
+      .filter(Boolean)
+  );
+  return devices.filter(
+    (device) => device.expected && device.ip !== null && scanned.has(device.ip) && !seen.has(device.id)
+  );
+}
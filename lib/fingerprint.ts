@@ -0,0 +1,220 @@
+import http from 'node:http';
+import https from 'node:https';
+import { Socket } from 'node:net';
+import tls from 'node:tls';
+import { isOpen } from './portClassification';
+import type { PortDescriptor, PortProtocol } from './ports';
+import type { HttpFingerprint, PortProbe, ServiceFingerprint, TlsFingerprint } from './scanTypes';
+
+export const GREETING_PORTS = new Set([21, 22, 23, 25, 110, 143, 587, 3306, 5900]);
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_BANNER_LENGTH = 256;
+const MAX_TITLE_LENGTH = 200;
+
+function collapse(value: string, limit: number): string {
+  return value.replace(/\s+/g, ' ').trim().slice(0, limit);
+}
+
+export function extractTitle(html: string): string | null {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  if (!match) {
+    return null;
+  }
+  const title = collapse(match[1], MAX_TITLE_LENGTH);
+  return title || null;
+}
+
+export function grabBanner(host: string, port: number, timeoutMs: number, signal: AbortSignal): Promise<string | null> {
+  return new Promise((resolve) => {
+    const socket = new Socket();
+    let buffer = '';
+    let settled = false;
+
+    const finalize = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal.removeEventListener('abort', finalize);
+      socket.destroy();
+      const banner = collapse(buffer.split(/\r?\n/)[0] ?? '', MAX_BANNER_LENGTH);
+      resolve(banner || null);
+    };
+
+    if (signal.aborted) {
+      finalize();
+      return;
+    }
+    signal.addEventListener('abort', finalize, { once: true });
+
+    socket.setTimeout(timeoutMs);
+    socket.setEncoding('latin1');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (buffer.includes('\n') || buffer.length >= MAX_BANNER_LENGTH) {
+        finalize();
+      }
+    });
+    socket.once('timeout', finalize);
+    socket.on('error', finalize);
+    socket.once('close', finalize);
+    socket.connect(port, host);
+  });
+}
+
+export function fetchHttpFingerprint(
+  host: string,
+  port: number,
+  protocol: PortProtocol,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<HttpFingerprint | null> {
+  return new Promise((resolve) => {
+    const client = protocol === 'https' ? https : http;
+    let settled = false;
+
+    const finish = (value: HttpFingerprint | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      resolve(value);
+    };
+
+    const request = client.request(
+      {
+        host,
+        port,
+        method: 'GET',
+        path: '/',
+        timeout: timeoutMs,
+        signal,
+        rejectUnauthorized: false,
+        headers: { 'User-Agent': 'LAN-Scanner-Pro', Accept: 'text/html,*/*' }
+      },
+      (response) => {
+        const serverHeader = response.headers.server;
+        const server = Array.isArray(serverHeader) ? serverHeader.join(', ') : serverHeader ?? null;
+        let body = '';
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          body += chunk;
+          if (body.length >= MAX_BODY_BYTES) {
+            response.destroy();
+            finish({ status: response.statusCode ?? 0, title: extractTitle(body), server });
+          }
+        });
+        response.on('end', () => finish({ status: response.statusCode ?? 0, title: extractTitle(body), server }));
+        response.on('error', () => finish({ status: response.statusCode ?? 0, title: extractTitle(body), server }));
+      }
+    );
+
+    request.on('timeout', () => {
+      request.destroy();
+      finish(null);
+    });
+    request.on('error', () => finish(null));
+    request.end();
+  });
+}
+
+function formatDistinguishedName(name: Record<string, string | string[]> | undefined): string | null {
+  if (!name) {
+    return null;
+  }
+  const parts = Object.entries(name).map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+export function fetchTlsFingerprint(
+  host: string,
+  port: number,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<TlsFingerprint | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const socket = tls.connect({ host, port, rejectUnauthorized: false, timeout: timeoutMs });
+
+    const finish = (value: TlsFingerprint | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal.removeEventListener('abort', onAbort);
+      socket.destroy();
+      resolve(value);
+    };
+
+    const onAbort = () => finish(null);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      if (!certificate || Object.keys(certificate).length === 0) {
+        finish(null);
+        return;
+      }
+      const expiry = new Date(certificate.valid_to);
+      finish({
+        subject: formatDistinguishedName(certificate.subject as unknown as Record<string, string | string[]>),
+        issuer: formatDistinguishedName(certificate.issuer as unknown as Record<string, string | string[]>),
+        validTo: Number.isNaN(expiry.getTime()) ? null : expiry.toISOString()
+      });
+    });
+    socket.once('timeout', () => finish(null));
+    socket.on('error', () => finish(null));
+  });
+}
+
+export async function fingerprintService(
+  host: string,
+  descriptor: PortDescriptor,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<ServiceFingerprint | undefined> {
+  const fingerprint: ServiceFingerprint = {};
+
+  if (GREETING_PORTS.has(descriptor.port)) {
+    const banner = await grabBanner(host, descriptor.port, timeoutMs, signal);
+    if (banner) {
+      fingerprint.banner = banner;
+    }
+  } else {
+    if (descriptor.protocol === 'https') {
+      const certificate = await fetchTlsFingerprint(host, descriptor.port, timeoutMs, signal);
+      if (certificate) {
+        fingerprint.tls = certificate;
+      }
+    }
+    const response = await fetchHttpFingerprint(host, descriptor.port, descriptor.protocol, timeoutMs, signal);
+    if (response) {
+      fingerprint.http = response;
+    } else if (!fingerprint.tls) {
+      const banner = await grabBanner(host, descriptor.port, Math.min(timeoutMs, 1500), signal);
+      if (banner) {
+        fingerprint.banner = banner;
+      }
+    }
+  }
+
+  return Object.keys(fingerprint).length > 0 ? fingerprint : undefined;
+}
+
+export function withFingerprint(probe: PortProbe): PortProbe {
+  return async (ip, descriptor, context) => {
+    const result = await probe(ip, descriptor, context);
+    if (!isOpen(result.status) || context.signal.aborted) {
+      return result;
+    }
+
+    const fingerprint = await fingerprintService(ip, descriptor, context.timeoutMs, context.signal);
+    return fingerprint ? { ...result, fingerprint } : result;
+  };
+}
@@ -0,0 +1,226 @@
+import dgram from 'node:dgram';
+import { Resolver } from 'node:dns/promises';
+import { readFile } from 'node:fs/promises';
+import { isValidIPv4 } from './ipRange';
+import { lookupVendor, normalizeMac } from './ouiVendors';
+import type { HostEnricher, HostIdentity } from './scanTypes';
+
+const ARP_TABLE_PATH = '/proc/net/arp';
+const MDNS_PORT = 5353;
+const NETBIOS_PORT = 137;
+const MAX_LOOKUP_TIMEOUT = 1500;
+const ARP_FLAG_COMPLETE = 0x2;
+
+function reverseName(ip: string): string {
+  return `${ip.split('.').reverse().join('.')}.in-addr.arpa`;
+}
+
+function trimDot(name: string): string {
+  return name.replace(/\.$/, '');
+}
+
+export async function reverseDns(ip: string, timeoutMs: number): Promise<string | null> {
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 1 });
+  try {
+    const [name] = await resolver.reverse(ip);
+    return name ? trimDot(name) : null;
+  } catch {
+    return null;
+  } finally {
+    resolver.cancel();
+  }
+}
+
+function queryUdp(
+  ip: string,
+  port: number,
+  packet: Buffer,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<Buffer | null> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket('udp4');
+    let settled = false;
+
+    const finish = (value: Buffer | null) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      socket.close();
+      resolve(value);
+    };
+
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    socket.on('message', (message, remote) => {
+      if (remote.address === ip) {
+        finish(message);
+      }
+    });
+    socket.on('error', () => finish(null));
+    socket.send(packet, port, ip, (error) => {
+      if (error) {
+        finish(null);
+      }
+    });
+  });
+}
+
+function encodeDnsName(name: string): Buffer {
+  const labels = name.split('.').map((label) => {
+    const bytes = Buffer.from(label, 'utf8');
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+function readDnsName(message: Buffer, offset: number): { name: string; next: number } | null {
+  const labels: string[] = [];
+  let cursor = offset;
+  let next = -1;
+
+  for (let jumps = 0; jumps < 16; ) {
+    if (cursor >= message.length) {
+      return null;
+    }
+    const length = message[cursor];
+    if (length === 0) {
+      return { name: labels.join('.'), next: next === -1 ? cursor + 1 : next };
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (cursor + 1 >= message.length) {
+        return null;
+      }
+      if (next === -1) {
+        next = cursor + 2;
+      }
+      cursor = ((length & 0x3f) << 8) | message[cursor + 1];
+      jumps += 1;
+      continue;
+    }
+    labels.push(message.toString('utf8', cursor + 1, cursor + 1 + length));
+    cursor += length + 1;
+  }
+  return null;
+}
+
+export async function queryMdnsName(ip: string, timeoutMs: number, signal: AbortSignal): Promise<string | null> {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(Math.floor(Math.random() * 0xffff), 0);
+  header.writeUInt16BE(1, 4);
+  const question = Buffer.concat([encodeDnsName(reverseName(ip)), Buffer.from([0x00, 0x0c, 0x00, 0x01])]);
+
+  const response = await queryUdp(ip, MDNS_PORT, Buffer.concat([header, question]), timeoutMs, signal);
+  if (!response || response.length < 12) {
+    return null;
+  }
+
+  const questions = response.readUInt16BE(4);
+  const answers = response.readUInt16BE(6);
+  let offset = 12;
+  for (let index = 0; index < questions; index += 1) {
+    const name = readDnsName(response, offset);
+    if (!name) {
+      return null;
+    }
+    offset = name.next + 4;
+  }
+
+  for (let index = 0; index < answers; index += 1) {
+    const owner = readDnsName(response, offset);
+    if (!owner || owner.next + 10 > response.length) {
+      return null;
+    }
+    const type = response.readUInt16BE(owner.next);
+    const length = response.readUInt16BE(owner.next + 8);
+    const data = owner.next + 10;
+    if (type === 0x0c) {
+      const target = readDnsName(response, data);
+      return target?.name ? trimDot(target.name) : null;
+    }
+    offset = data + length;
+  }
+  return null;
+}
+
+export async function queryNetbiosName(ip: string, timeoutMs: number, signal: AbortSignal): Promise<string | null> {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(Math.floor(Math.random() * 0xffff), 0);
+  header.writeUInt16BE(1, 4);
+  // Node status request for the wildcard name "*", first-level encoded as 32 nibble characters.
+  const wildcard = Buffer.from(`CK${'A'.repeat(30)}`, 'ascii');
+  const question = Buffer.concat([Buffer.from([0x20]), wildcard, Buffer.from([0x00, 0x00, 0x21, 0x00, 0x01])]);
+
+  const response = await queryUdp(ip, NETBIOS_PORT, Buffer.concat([header, question]), timeoutMs, signal);
+  const countOffset = 12 + 34 + 10;
+  if (!response || response.length <= countOffset) {
+    return null;
+  }
+
+  const count = response[countOffset];
+  for (let index = 0; index < count; index += 1) {
+    const entry = countOffset + 1 + index * 18;
+    if (entry + 18 > response.length) {
+      break;
+    }
+    const suffix = response[entry + 15];
+    const isGroup = (response.readUInt16BE(entry + 16) & 0x8000) !== 0;
+    if (suffix === 0x00 && !isGroup) {
+      const name = response.toString('latin1', entry, entry + 15).trim();
+      return name || null;
+    }
+  }
+  return null;
+}
+
+export async function readArpTable(): Promise<Map<string, string>> {
+  const table = new Map<string, string>();
+  try {
+    const content = await readFile(ARP_TABLE_PATH, 'utf8');
+    content
+      .split('\n')
+      .slice(1)
+      .forEach((line) => {
+        const [ip, , flags, hardware] = line.trim().split(/\s+/);
+        const mac = hardware ? normalizeMac(hardware) : null;
+        if (ip && mac && (Number.parseInt(flags, 16) & ARP_FLAG_COMPLETE) !== 0) {
+          table.set(ip, mac);
+        }
+      });
+  } catch {
+    // Not on Linux or /proc is unavailable: MAC enrichment is skipped.
+  }
+  return table;
+}
+
+export const identifyHost: HostEnricher = async (ip, timeoutMs, signal) => {
+  const lookupTimeout = Math.min(timeoutMs, MAX_LOOKUP_TIMEOUT);
+  // The mDNS reverse query and NetBIOS are only implemented over IPv4; reverse DNS covers both families.
+  const v4 = isValidIPv4(ip);
+  const [hostname, mdnsName, netbiosName, arp] = await Promise.all([
+    reverseDns(ip, lookupTimeout),
+    v4 ? queryMdnsName(ip, lookupTimeout, signal) : null,
+    v4 ? queryNetbiosName(ip, lookupTimeout, signal) : null,
+    readArpTable()
+  ]);
+
+  const mac = arp.get(ip) ?? null;
+  const vendor = mac ? lookupVendor(mac) : null;
+  const identity: HostIdentity = {
+    ...(hostname ? { hostname } : {}),
+    ...(mdnsName ? { mdnsName } : {}),
+    ...(netbiosName ? { netbiosName } : {}),
+    ...(mac ? { mac } : {}),
+    ...(vendor ? { vendor } : {})
+  };
+  return Object.keys(identity).length > 0 ? identity : undefined;
+};
@@ -0,0 +1,35 @@
+import { compareIps } from './ipRange';
+import type { HostIdentity, HostScanResult, ScanProgress } from './scanTypes';
+
+export function compareHostResults(a: HostScanResult, b: HostScanResult): number {
+  if (a.reachable && !b.reachable) {
+    return -1;
+  }
+  if (!a.reachable && b.reachable) {
+    return 1;
+  }
+  return compareIps(a.ip, b.ip);
+}
+
+export function summarizeProgress(results: HostScanResult[]): ScanProgress {
+  return {
+    total: results.length,
+    completed: results.length,
+    reachable: results.filter((entry) => entry.reachable).length
+  };
+}
+
+export function hostDisplayName(identity: HostIdentity | undefined): string | null {
+  return identity?.hostname ?? identity?.mdnsName ?? identity?.netbiosName ?? null;
+}
+
+export function hasIdentity(results: HostScanResult[]): boolean {
+  return results.some((host) => host.identity !== undefined);
+}
+
+export function fastestOpenLatency(host: HostScanResult): number | null {
+  const latencies = host.ports
+    .filter((port) => port.status === 'open' && port.latencyMs !== null)
+    .map((port) => port.latencyMs as number);
+  return latencies.length > 0 ? Math.min(...latencies) : null;
+}
@@ -0,0 +1,116 @@
+import { en } from './messages/en';
+import { ptBR, type Messages } from './messages/pt-BR';
+
+export type Locale = 'pt-BR' | 'en';
+
+export type { Messages };
+
+export type Formatters = {
+  number: (value: number) => string;
+  latency: (ms: number) => string;
+  duration: (ms: number) => string;
+  percent: (ratio: number) => string;
+  time: (timestamp: number) => string;
+  date: (timestamp: number) => string;
+  dateTime: (timestamp: number) => string;
+};
+
+export const LOCALES: Locale[] = ['pt-BR', 'en'];
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+export const LOCALE_COOKIE = 'lan-scanner-locale';
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export const MESSAGES: Record<Locale, Messages> = {
+  'pt-BR': ptBR,
+  en
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+export function matchLocale(acceptLanguage: string | null | undefined): Locale | null {
+  if (!acceptLanguage) {
+    return null;
+  }
+  const preferences = acceptLanguage
+    .split(',')
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.map((param) => /^q=([\d.]+)$/.exec(param.trim())).find(Boolean);
+      return { tag: tag.toLowerCase(), quality: quality ? Number(quality[1]) : 1 };
+    })
+    .filter((entry) => entry.tag && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of preferences) {
+    const language = tag.split('-')[0];
+    if (language === 'pt') {
+      return 'pt-BR';
+    }
+    if (language === 'en') {
+      return 'en';
+    }
+  }
+  return null;
+}
+
+export function resolveLocale(stored: string | null | undefined, acceptLanguage?: string | null): Locale {
+  if (isLocale(stored)) {
+    return stored;
+  }
+  return matchLocale(acceptLanguage) ?? DEFAULT_LOCALE;
+}
+
+// Route handlers answer in the language the page would use: the saved cookie first, then Accept-Language.
+export function requestLocale(request: Request): Locale {
+  const stored = (request.headers.get('cookie') ?? '')
+    .split(';')
+    .map((entry) => entry.trim().split('='))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1];
+  return resolveLocale(stored ? decodeURIComponent(stored) : null, request.headers.get('accept-language'));
+}
+
+export function createFormatters(locale: Locale): Formatters {
+  const integer = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+  const latency = new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: 'millisecond',
+    unitDisplay: 'short',
+    maximumFractionDigits: 0
+  });
+  const units = (['hour', 'minute', 'second'] as const).map(
+    (unit) => new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow', maximumFractionDigits: 0 })
+  );
+  const percent = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+  const time = new Intl.DateTimeFormat(locale, { timeStyle: 'medium' });
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: 'medium' });
+  const dateTime = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeStyle: 'medium' });
+  // Imported reports can carry unparsable dates; Intl throws on those instead of printing "Invalid Date".
+  const formatDate = (formatter: Intl.DateTimeFormat) => (timestamp: number) =>
+    Number.isFinite(timestamp) ? formatter.format(timestamp) : '—';
+
+  return {
+    number: (value) => integer.format(value),
+    latency: (ms) => latency.format(ms),
+    duration: (ms) => {
+      const totalSeconds = Math.max(1, Math.ceil(ms / 1000));
+      const parts = [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60];
+      const first = parts.findIndex((part) => part > 0);
+      // The two most significant units are enough for an estimate, e.g. "2 h 5 min".
+      return parts
+        .slice(first, first + 2)
+        .map((part, index) => units[first + index].format(part))
+        .filter((text, index) => index === 0 || !text.startsWith('0'))
+        .join(' ');
+    },
+    percent: (ratio) => percent.format(ratio),
+    time: formatDate(time),
+    date: formatDate(date),
+    dateTime: formatDate(dateTime)
+  };
+}
+
+export function localeCookie(locale: Locale): string {
+  return `${LOCALE_COOKIE}=${encodeURIComponent(locale)}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
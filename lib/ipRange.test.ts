@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_IPV6_BLOCK_HOSTS, MAX_TARGET_HOSTS, parseTargets, type TargetErrorCode } from './ipRange';
+
+function codes(expression: string): TargetErrorCode[] {
+  return parseTargets(expression).errors.map((error) => error.code);
+}
+
+describe('parseTargets', () => {
+  it('expands a list of CIDR blocks in address order', () => {
+    assert.deepEqual(parseTargets('192.168.1.0/30, 10.0.0.0/31 10.0.0.8/32').hosts, [
+      '10.0.0.0',
+      '10.0.0.1',
+      '10.0.0.8',
+      '192.168.1.1',
+      '192.168.1.2'
+    ]);
+  });
+
+  it('skips network and broadcast addresses unless asked to keep them', () => {
+    assert.deepEqual(parseTargets('192.168.1.0/30').hosts, ['192.168.1.1', '192.168.1.2']);
+    assert.deepEqual(parseTargets('192.168.1.0/30', { includeNetworkAndBroadcast: true }).hosts, [
+      '192.168.1.0',
+      '192.168.1.1',
+      '192.168.1.2',
+      '192.168.1.3'
+    ]);
+  });
+
+  it('accepts full and short dash ranges', () => {
+    assert.deepEqual(parseTargets('10.0.0.1-10.0.0.3').hosts, ['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    assert.deepEqual(parseTargets('10.0.0.250-252').hosts, ['10.0.0.250', '10.0.0.251', '10.0.0.252']);
+    assert.deepEqual(parseTargets('fd00::1-3').hosts, ['fd00::1', 'fd00::2', 'fd00::3']);
+  });
+
+  it('removes addresses, ranges and blocks prefixed with !', () => {
+    assert.deepEqual(parseTargets('192.168.1.0/29 !192.168.1.3 !192.168.1.4-5').hosts, [
+      '192.168.1.1',
+      '192.168.1.2',
+      '192.168.1.6'
+    ]);
+    assert.deepEqual(parseTargets('!10.0.0.0/8 10.0.0.1').hosts, []);
+  });
+
+  it('deduplicates overlapping tokens', () => {
+    assert.deepEqual(parseTargets('10.0.0.1, 10.0.0.1-2 10.0.0.2').hosts, ['10.0.0.1', '10.0.0.2']);
+  });
+
+  it('refuses selections above MAX_TARGET_HOSTS', () => {
+    const result = parseTargets('10.0.0.0/15');
+    assert.deepEqual(result.hosts, []);
+    assert.deepEqual(result.errors, [
+      { token: '10.0.0.0/15', code: 'too-many-hosts', requested: 131070, limit: MAX_TARGET_HOSTS }
+    ]);
+  });
+
+  it('honours a lower maxHosts', () => {
+    assert.deepEqual(parseTargets('10.0.0.0/24', { maxHosts: 100 }).errors, [
+      { token: '10.0.0.0/24', code: 'too-many-hosts', requested: 254, limit: 100 }
+    ]);
+  });
+
+  it('caps each IPv6 block at MAX_IPV6_BLOCK_HOSTS', () => {
+    assert.equal(parseTargets('fd00::/116').errors.length, 0);
+    assert.deepEqual(parseTargets('fd00::/115').errors, [
+      { token: 'fd00::/115', code: 'ipv6-too-large', requested: 8191, limit: MAX_IPV6_BLOCK_HOSTS }
+    ]);
+  });
+
+  it('reports each kind of malformed token by code', () => {
+    assert.deepEqual(codes(''), ['empty']);
+    assert.deepEqual(codes('  ,, '), ['empty']);
+    assert.deepEqual(codes('10.0.0.256'), ['invalid-address']);
+    assert.deepEqual(codes('10.0.0.300/24'), ['invalid-address']);
+    assert.deepEqual(codes('10.0.0.0/33'), ['invalid-prefix']);
+    assert.deepEqual(codes('10.0.0.1-2-3'), ['invalid-range']);
+    assert.deepEqual(codes('10.0.0.1-fd00::1'), ['invalid-range']);
+    assert.deepEqual(codes('10.0.0.5-10.0.0.1'), ['reversed-range']);
+  });
+
+  it('keeps the offending token, including the ! of exclusions', () => {
+    assert.deepEqual(parseTargets('10.0.0.1 !10.0.0.x').errors, [{ token: '!10.0.0.x', code: 'invalid-address' }]);
+  });
+});
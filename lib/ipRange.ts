@@ -0,0 +1,411 @@
+export type IpFamily = 4 | 6;
+
+export type AddressRange = {
+  start: string;
+  end: string;
+};
+
+export type AddressBounds = {
+  family: IpFamily;
+  start: bigint;
+  end: bigint;
+};
+
+export type ParsedAddress = {
+  family: IpFamily;
+  value: bigint;
+};
+
+export type TargetErrorCode =
+  | 'empty'
+  | 'invalid-address'
+  | 'invalid-prefix'
+  | 'invalid-range'
+  | 'reversed-range'
+  | 'ipv6-too-large'
+  | 'too-many-hosts';
+
+export type TargetError = {
+  token: string;
+  code: TargetErrorCode;
+  requested?: number;
+  limit?: number;
+};
+
+export type TargetParseOptions = {
+  includeNetworkAndBroadcast?: boolean;
+  maxHosts?: number;
+};
+
+export type TargetParseResult = {
+  hosts: string[];
+  errors: TargetError[];
+};
+
+export const MAX_TARGET_HOSTS = 65536;
+// IPv6 prefixes are only enumerable when they are tiny; a /116 is the largest block accepted.
+export const MAX_IPV6_BLOCK_HOSTS = 4096;
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/;
+const ADDRESS_BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+
+const ONE = BigInt(1);
+const GROUP_BITS = BigInt(16);
+const GROUP_MASK = BigInt(0xffff);
+
+export function isValidIPv4(value: string): boolean {
+  const match = IPV4_PATTERN.exec(value.trim());
+  if (!match) {
+    return false;
+  }
+
+  return match.slice(1).every((octet) => {
+    if (octet.length > 1 && octet.startsWith('0')) {
+      return false;
+    }
+    return Number(octet) <= 255;
+  });
+}
+
+export function ipv4ToNumber(ip: string): number {
+  return ip
+    .trim()
+    .split('.')
+    .reduce((total, octet) => total * 256 + Number(octet), 0);
+}
+
+export function numberToIPv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+function stripBrackets(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+}
+
+function parseIPv6Groups(part: string, allowEmbeddedIPv4: boolean): number[] | null {
+  if (part === '') {
+    return [];
+  }
+  const pieces = part.split(':');
+  const groups: number[] = [];
+  for (let index = 0; index < pieces.length; index += 1) {
+    const piece = pieces[index];
+    if (allowEmbeddedIPv4 && index === pieces.length - 1 && piece.includes('.')) {
+      if (!isValidIPv4(piece)) {
+        return null;
+      }
+      const value = ipv4ToNumber(piece);
+      groups.push(Math.floor(value / 65536), value % 65536);
+    } else if (IPV6_GROUP_PATTERN.test(piece)) {
+      groups.push(parseInt(piece, 16));
+    } else {
+      return null;
+    }
+  }
+  return groups;
+}
+
+function parseIPv6(value: string): bigint | null {
+  const text = value.trim().toLowerCase();
+  if (!text.includes(':') || /[^0-9a-f:.]/.test(text)) {
+    return null;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const compressed = halves.length === 2;
+  const head = parseIPv6Groups(halves[0], !compressed);
+  const tail = compressed ? parseIPv6Groups(halves[1], true) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (compressed ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...head, ...Array.from<number>({ length: compressed ? missing : 0 }).fill(0), ...tail];
+  return groups.reduce((total, group) => (total << GROUP_BITS) | BigInt(group), BigInt(0));
+}
+
+export function isValidIPv6(value: string): boolean {
+  return parseIPv6(value) !== null;
+}
+
+export function isValidIP(value: string): boolean {
+  return isValidIPv4(value) || isValidIPv6(value);
+}
+
+export function parseAddress(value: string): ParsedAddress | null {
+  if (isValidIPv4(value)) {
+    return { family: 4, value: BigInt(ipv4ToNumber(value)) };
+  }
+  const v6 = parseIPv6(value);
+  return v6 === null ? null : { family: 6, value: v6 };
+}
+
+function formatIPv6(value: bigint): string {
+  const groups = Array.from({ length: 8 }, (_, index) =>
+    Number((value >> (GROUP_BITS * BigInt(7 - index))) & GROUP_MASK)
+  );
+
+  // RFC 5952: compress the longest run of two or more zero groups, the first one on ties.
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let index = 0; index < groups.length; ) {
+    if (groups[index] !== 0) {
+      index += 1;
+      continue;
+    }
+    let end = index;
+    while (end < groups.length && groups[end] === 0) {
+      end += 1;
+    }
+    if (end - index > bestLength) {
+      bestStart = index;
+      bestLength = end - index;
+    }
+    index = end;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+export function formatAddress(address: ParsedAddress): string {
+  return address.family === 4 ? numberToIPv4(Number(address.value)) : formatIPv6(address.value);
+}
+
+export function normalizeAddress(value: string): string | null {
+  const address = parseAddress(stripBrackets(value));
+  return address ? formatAddress(address) : null;
+}
+
+export function urlHost(ip: string): string {
+  return ip.includes(':') ? `[${ip}]` : ip;
+}
+
+// Fixed-width key that orders IPv4 before IPv6, numerically within each family and anything unparseable last.
+export function ipSortKey(ip: string): string {
+  const address = parseAddress(ip);
+  if (!address) {
+    return `9${ip}`;
+  }
+  return `${address.family}${address.value.toString(16).padStart(ADDRESS_BITS[address.family] / 4, '0')}`;
+}
+
+export function compareIps(a: string, b: string): number {
+  const left = ipSortKey(a);
+  const right = ipSortKey(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function parsePrefix(value: string, family: IpFamily): number | null {
+  if (!/^\d{1,3}$/.test(value)) {
+    return null;
+  }
+  const prefix = Number(value);
+  return prefix >= 0 && prefix <= ADDRESS_BITS[family] ? prefix : null;
+}
+
+function cidrBounds(cidr: string, includeNetworkAndBroadcast: boolean): AddressBounds | null {
+  const [addressText, prefixText, ...rest] = cidr.trim().split('/');
+  const address = addressText ? parseAddress(stripBrackets(addressText)) : null;
+  if (rest.length > 0 || !address || prefixText === undefined) {
+    return null;
+  }
+
+  const prefix = parsePrefix(prefixText, address.family);
+  if (prefix === null) {
+    return null;
+  }
+
+  const hostBits = ADDRESS_BITS[address.family] - prefix;
+  const size = ONE << BigInt(hostBits);
+  const network = (address.value >> BigInt(hostBits)) << BigInt(hostBits);
+  const last = network + size - ONE;
+  const { family } = address;
+
+  if (includeNetworkAndBroadcast || hostBits <= 1) {
+    return { family, start: network, end: last };
+  }
+
+  // IPv6 has no broadcast, but the all-zeros address is the subnet-router anycast and is skipped like a network id.
+  return { family, start: network + ONE, end: family === 4 ? last - ONE : last };
+}
+
+export function cidrToRange(cidr: string, includeNetworkAndBroadcast = false): AddressRange | null {
+  const bounds = cidrBounds(cidr, includeNetworkAndBroadcast);
+  if (!bounds) {
+    return null;
+  }
+
+  return {
+    start: formatAddress({ family: bounds.family, value: bounds.start }),
+    end: formatAddress({ family: bounds.family, value: bounds.end })
+  };
+}
+
+export function enumerateRange(start: string, end: string, maxHosts = MAX_TARGET_HOSTS): string[] {
+  const first = parseAddress(start);
+  const last = parseAddress(end);
+  if (!first || !last || first.family !== last.family) {
+    return [];
+  }
+
+  const limit = first.value + BigInt(maxHosts) - ONE;
+  const stop = last.value < limit ? last.value : limit;
+  const hosts: string[] = [];
+
+  for (let value = first.value; value <= stop; value += ONE) {
+    hosts.push(formatAddress({ family: first.family, value }));
+  }
+
+  return hosts;
+}
+
+type TokenBounds = AddressBounds | TargetError;
+
+function tokenError(token: string, code: TargetErrorCode): TargetError {
+  return { token, code };
+}
+
+function rangeEnd(from: string, to: string, family: IpFamily): string {
+  if (family === 4 && /^\d{1,3}$/.test(to)) {
+    return `${from.split('.').slice(0, 3).join('.')}.${to}`;
+  }
+  if (family === 6 && IPV6_GROUP_PATTERN.test(to.toLowerCase())) {
+    const value = parseIPv6(from);
+    return value === null ? to : formatIPv6(((value >> GROUP_BITS) << GROUP_BITS) | BigInt(parseInt(to, 16)));
+  }
+  return to;
+}
+
+function resolveToken(token: string, includeNetworkAndBroadcast: boolean): TokenBounds {
+  if (token.includes('/')) {
+    const [address] = token.split('/');
+    if (!isValidIP(stripBrackets(address))) {
+      return tokenError(token, 'invalid-address');
+    }
+    const bounds = cidrBounds(token, includeNetworkAndBroadcast);
+    if (!bounds) {
+      return tokenError(token, 'invalid-prefix');
+    }
+    return bounds;
+  }
+
+  if (token.includes('-')) {
+    const [from, to, ...rest] = token.split('-').map((part) => stripBrackets(part));
+    if (rest.length > 0 || !from || !to) {
+      return tokenError(token, 'invalid-range');
+    }
+    const first = parseAddress(from);
+    if (!first) {
+      return tokenError(token, 'invalid-address');
+    }
+
+    const last = parseAddress(rangeEnd(from, to, first.family));
+    if (!last) {
+      return tokenError(token, 'invalid-address');
+    }
+    if (last.family !== first.family) {
+      return tokenError(token, 'invalid-range');
+    }
+    if (first.value > last.value) {
+      return tokenError(token, 'reversed-range');
+    }
+    return { family: first.family, start: first.value, end: last.value };
+  }
+
+  const address = parseAddress(stripBrackets(token));
+  if (!address) {
+    return tokenError(token, 'invalid-address');
+  }
+
+  return { family: address.family, start: address.value, end: address.value };
+}
+
+export function targetBounds(token: string): AddressBounds | null {
+  const bounds = resolveToken(token.trim(), true);
+  return 'code' in bounds ? null : bounds;
+}
+
+export function boundsContain(ranges: AddressBounds[], address: ParsedAddress): boolean {
+  return ranges.some(
+    (range) => range.family === address.family && address.value >= range.start && address.value <= range.end
+  );
+}
+
+function boundsSize(bounds: AddressBounds): number {
+  return Number(bounds.end - bounds.start + ONE);
+}
+
+export function splitTargetExpression(expression: string): string[] {
+  return expression
+    .split(/[\s,;]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+}
+
+export function parseTargets(expression: string, options: TargetParseOptions = {}): TargetParseResult {
+  const { includeNetworkAndBroadcast = false, maxHosts = MAX_TARGET_HOSTS } = options;
+  const tokens = splitTargetExpression(expression);
+  const errors: TargetError[] = [];
+
+  if (tokens.length === 0) {
+    return { hosts: [], errors: [tokenError('', 'empty')] };
+  }
+
+  const included: AddressBounds[] = [];
+  const excluded: AddressBounds[] = [];
+
+  for (const raw of tokens) {
+    const isExclusion = raw.startsWith('!');
+    const token = isExclusion ? raw.slice(1) : raw;
+    const bounds = resolveToken(token, includeNetworkAndBroadcast || isExclusion);
+
+    if ('code' in bounds) {
+      errors.push({ ...bounds, token: raw });
+      continue;
+    }
+
+    const size = boundsSize(bounds);
+    if (!isExclusion && bounds.family === 6 && size > MAX_IPV6_BLOCK_HOSTS) {
+      errors.push({ ...tokenError(raw, 'ipv6-too-large'), requested: size, limit: MAX_IPV6_BLOCK_HOSTS });
+      continue;
+    }
+
+    (isExclusion ? excluded : included).push(bounds);
+  }
+
+  const requested = included.reduce((total, bounds) => total + boundsSize(bounds), 0);
+  if (requested > maxHosts) {
+    errors.push({ ...tokenError(expression.trim(), 'too-many-hosts'), requested, limit: maxHosts });
+    return { hosts: [], errors };
+  }
+
+  const unique = new Map<string, ParsedAddress>();
+
+  for (const bounds of included) {
+    for (let value = bounds.start; value <= bounds.end; value += ONE) {
+      const address: ParsedAddress = { family: bounds.family, value };
+      if (!boundsContain(excluded, address)) {
+        unique.set(`${bounds.family}:${value}`, address);
+      }
+    }
+  }
+
+  const hosts = Array.from(unique.values())
+    .sort((a, b) => a.family - b.family || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0))
+    .map(formatAddress);
+
+  return { hosts, errors };
+}
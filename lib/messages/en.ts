@@ -0,0 +1,412 @@
+import type { MonitorEvent } from '../monitoring';
+import type { Messages } from './pt-BR';
+
+const count = new Intl.NumberFormat('en').format;
+
+const plural = (value: number, one: string, other: string) => `${count(value)} ${value === 1 ? one : other}`;
+
+const subject = (event: MonitorEvent) => (event.name ? `${event.name} (${event.ip})` : event.ip);
+
+export const en: Messages = {
+  meta: {
+    title: 'LAN Scanner Pro',
+    description: 'Browser-based LAN scanner for quick host discovery.'
+  },
+  locale: {
+    label: 'Language',
+    names: { 'pt-BR': 'Português (Brasil)', en: 'English' }
+  },
+  common: {
+    cancel: 'Cancel',
+    delete: 'Delete',
+    save: 'Save',
+    unnamed: 'unnamed'
+  },
+  page: {
+    title: 'Advanced LAN Scanner',
+    intro:
+      'Discover active devices on your local network straight from the browser. Set the IP range, pick the services to probe and follow the results in real time. For best accuracy, run it from the same segment as the target network.',
+    rangeMode: 'IP range',
+    cidrMode: 'CIDR',
+    intervalMode: 'Manual range',
+    engine: 'Scan engine',
+    browserEngine: 'Browser',
+    serverEngine: 'Server (TCP)',
+    serverEngineHint: 'Real TCP connections from the Next.js server, free of browser limits.',
+    browserEngineHint: 'HTTP/HTTPS probes sent directly from this browser.',
+    simulatedEngine: 'Simulated',
+    simulatedEngineHint: 'Virtual network described by a scenario; no packet leaves this machine and results repeat.',
+    scenario: 'Scenario',
+    scenarios: {
+      'home-lan': 'Home network',
+      'flaky-office': 'Flaky office'
+    },
+    customScenario: (name) => `Custom: ${name}`,
+    loadScenario: 'Load JSON scenario',
+    scenarioErrors: {
+      'invalid-json': () => 'The scenario file is not valid JSON.',
+      'invalid-field': (path) => (path ? `Invalid scenario field: ${path}.` : 'The scenario must be a JSON object.')
+    },
+    useScenarioTargets: 'Use scenario targets',
+    fingerprint: 'Identify services (HTTP, TLS and banners)',
+    identify: 'Resolve name, MAC and vendor',
+    targets: 'Targets',
+    targetsHint:
+      'Combine CIDR blocks, ranges (10.0.0.1-10.0.0.50 or 10.0.0.1-50) and single IPs separated by commas or line breaks. IPv6 works too (fd00::1, fd00::10-1f, fd00::/120). Use ! to exclude addresses.',
+    startIp: 'Start IP',
+    endIp: 'End IP',
+    invalidStartIp: (value) => `Invalid start IP: "${value}".`,
+    invalidEndIp: (value) => `Invalid end IP: "${value}".`,
+    timeout: 'Timeout (ms)',
+    speed: 'Speed',
+    retryTimeouts: 'Retry unanswered ports (fewer false negatives on unstable networks)',
+    start: 'Start scan',
+    scanning: 'Scanning…',
+    paused: 'Paused',
+    pause: 'Pause',
+    resume: 'Resume',
+    hostsInTarget: 'Target hosts:',
+    progress: 'Progress:',
+    responding: 'Responding:',
+    concurrency: 'Current parallelism:',
+    concurrencyUnit: 'host(s)',
+    error: 'Error:',
+    scanFailed: 'Scan failed.',
+    calibration: 'Calibration: nonexistent host',
+    calibrationNoResponse: 'no response',
+    closedThreshold: 'closed port threshold',
+    highlighted: 'Highlighted devices',
+    detected: (value) => `${count(value)} detected`,
+    noResponsiveHosts:
+      'No host has responded within the current settings yet. Adjust the range or raise the timeout for broader results.',
+    subnetMap: 'Subnet map',
+    mapProgress: (completed, total) => `${count(completed)} / ${plural(total, 'address', 'addresses')}`,
+    allResults: 'All results',
+    processed: (value) => `${count(value)} processed`,
+    resultsEmpty: 'This list collects every IP analysed during the scan with the status of each monitored port.',
+    inventoryInvalid: 'Enter a valid IP or MAC address for the device.'
+  },
+  scope: {
+    public: (value, sample) =>
+      `${plural(value, 'address is', 'addresses are')} outside the private ranges (RFC 1918 and link-local) and the allowlist: ${sample}.`,
+    denied: (value, sample) => `${plural(value, 'address is', 'addresses are')} blocked by the denylist: ${sample}.`,
+    estimate: 'Estimate:',
+    probes: (value) => plural(value, 'probe', 'probes'),
+    upTo: (duration) => `up to ${duration}`,
+    rateCap: (value) => `max. ${count(value)} probes/s`,
+    confirmTitle: 'Confirm large scan',
+    confirmBody: (probes, threshold, duration) =>
+      `This scan will send ${count(probes)} probes, above the ${count(threshold)} limit that runs without confirmation, and may take up to ${duration}.`,
+    confirm: 'Confirm and start'
+  },
+  speeds: {
+    gentle: 'Gentle',
+    normal: 'Normal',
+    aggressive: 'Aggressive'
+  },
+  portStatus: {
+    open: 'open',
+    closed: 'closed',
+    filtered: 'filtered',
+    unknown: 'n/a'
+  },
+  probeMethods: {
+    fetch: 'fetch',
+    'fetch-head': 'fetch HEAD',
+    image: 'image',
+    websocket: 'WebSocket',
+    tcp: 'TCP',
+    simulated: 'simulated'
+  },
+  confidence: (value) => `Confidence: ${value}`,
+  targetErrors: {
+    empty: () => 'Enter at least one address, range or CIDR block.',
+    'invalid-address': (error) => `Invalid address in "${error.token}".`,
+    'invalid-prefix': (error) => `Invalid CIDR prefix in "${error.token}" (use /0 to /32, or /0 to /128 for IPv6).`,
+    'invalid-range': (error) => `Invalid range in "${error.token}".`,
+    'reversed-range': (error) => `The end address comes before the start address in "${error.token}".`,
+    'ipv6-too-large': (error) =>
+      `The IPv6 block "${error.token}" covers ${count(error.requested ?? 0)} addresses; the per-block limit is ${count(error.limit ?? 0)}.`,
+    'too-many-hosts': (error) =>
+      `The selection covers ${count(error.requested ?? 0)} addresses; the limit is ${count(error.limit ?? 0)}.`
+  },
+  portErrors: {
+    'invalid-port': (error) => `Invalid port: "${error.token}" (use 1 to 65535).`,
+    'invalid-range': (error) => `Reversed port range in "${error.token}".`,
+    'invalid-protocol': (error) => `Invalid protocol in "${error.token}" (use /http or /https).`,
+    'too-many-ports': (error) => `Limit of ${count(error.limit ?? 0)} ports per scan exceeded in "${error.token}".`
+  },
+  importErrors: {
+    'not-a-report': () => 'The JSON file is not a LAN Scanner Pro report.',
+    'unsupported-version': (detail) => `Unsupported report version: ${detail ?? '?'}.`,
+    'invalid-config': () => 'The report has an invalid scan configuration.',
+    'invalid-host-entry': (detail) => `Invalid host entry (${detail ?? '?'}).`,
+    'invalid-port-entry': (detail) => `Invalid port entry (${detail ?? '?'}).`,
+    'unknown-csv-header': () => 'Unrecognised CSV header.',
+    'missing-nmaprun': () => 'The XML has no <nmaprun> element.',
+    unreadable: (detail) => (detail ? `Could not read the file: ${detail}` : 'Invalid file.')
+  },
+  scanErrors: {
+    invalidBody: 'Invalid request body.',
+    missingTargets: 'The "targets" field is required.',
+    missingPorts: 'Provide at least one valid port.',
+    confirmationRequired: (probes, limit) =>
+      `The scan involves ${count(probes)} probes (limit without confirmation: ${count(limit)}); confirm to proceed ("confirmed": true in the API, --yes in the CLI).`,
+    queueFull: (limit) => `Queue full: ${count(limit)} scans are already waiting to run.`,
+    jobNotFound: (id) => `Scan "${id}" not found.`,
+    httpStatus: (status) => `The server answered with HTTP ${status}.`,
+    scanFailed: 'Scan failed.',
+    historyUnavailable: 'IndexedDB is unavailable in this browser.',
+    noProbeStrategy: 'No probe strategy is available in this environment.'
+  },
+  subnetPicker: {
+    detecting: 'Detecting networks…',
+    detected: (value) => `Detected networks (${count(value)})`,
+    redetect: 'Detect again',
+    sources: {
+      location: 'page address',
+      webrtc: 'WebRTC',
+      server: 'server',
+      history: 'recent scan',
+      default: 'default'
+    }
+  },
+  portSelector: {
+    title: 'Services / Ports',
+    deleteProfile: 'Delete profile',
+    toggleProtocol: 'Toggle protocol',
+    addPorts: 'Add ports',
+    profileNamePlaceholder: 'Profile name (e.g. office printers)',
+    saveProfile: 'Save profile',
+    hint: 'The scan uses passive HTTP/HTTPS attempts to identify devices answering on these ports.',
+    builtinProfiles: {
+      default: 'Default',
+      printers: 'Printers',
+      cameras: 'Cameras',
+      'dev-servers': 'Development servers'
+    }
+  },
+  hostCard: {
+    active: 'active',
+    updatedAt: (time) => `updated ${time}`,
+    issuer: 'Issuer',
+    expires: 'Expires',
+    vendor: 'Vendor',
+    agreement: (agreeing, total) => `${count(agreeing)}/${plural(total, 'strategy agrees', 'strategies agree')}`,
+    evidence: (method, status, confidence) => `${method}: ${status} (${confidence})`
+  },
+  inventoryBadge: {
+    matchedByMac: 'Matched by MAC',
+    matchedByIp: 'Matched by IP',
+    outsideInventory: 'Host not in the inventory',
+    unknown: 'unknown'
+  },
+  resultsTable: {
+    searchPlaceholder: 'Search by IP, name, MAC, vendor, tag…',
+    anyPort: 'Any port',
+    portOpen: (port) => `Port ${port} open`,
+    reachableOnly: 'Active only',
+    unknownOnly: 'Unknown only',
+    shown: (visible, total) => `${count(visible)} of ${count(total)}`,
+    ip: 'IP',
+    inventory: 'Inventory',
+    latency: 'Latency',
+    openPorts: 'Open',
+    name: 'Name',
+    mac: 'MAC',
+    vendor: 'Vendor',
+    anyType: 'Any type',
+    type: 'Type',
+    noMatches: 'No host matches the current filters.'
+  },
+  subnetMap: {
+    cells: {
+      outside: 'outside target',
+      pending: 'pending',
+      scanning: 'scanning',
+      silent: 'no response',
+      responsive: 'active'
+    },
+    empty: 'Once a scan starts, the map shows every address in the range as 256-cell blocks per /24.',
+    silentHost: (ports) => `did not respond on any of the ${plural(ports, 'tested port', 'tested ports')}.`,
+    scanningHost: 'is being scanned right now.',
+    pendingHost: 'has not been scanned yet.'
+  },
+  history: {
+    title: 'Scan history',
+    saved: (value) => `${count(value)} saved`,
+    readFailed: 'Could not read the history.',
+    empty: 'Every completed scan is saved in this browser so you can review and compare it later.',
+    hostsUnit: 'host(s)',
+    open: 'Open',
+    base: 'Base',
+    compareWith: 'Compare with',
+    compare: 'Compare',
+    noChanges: 'No changes between the two scans.',
+    newHosts: (value) => `New hosts (${count(value)})`,
+    missingHosts: (value) => `Missing hosts (${count(value)})`,
+    changedPorts: (value) => `Changed ports (${count(value)})`,
+    opened: 'opened',
+    closed: 'closed'
+  },
+  transfer: {
+    import: 'Import'
+  },
+  inventory: {
+    title: 'Device inventory',
+    registered: (value) => plural(value, 'device', 'devices'),
+    add: 'Add',
+    edit: 'Edit',
+    missing: (value) =>
+      value === 1
+        ? '1 expected device did not respond in this scan.'
+        : `${count(value)} expected devices did not respond in this scan.`,
+    empty:
+      'Give names, tags and notes to discovered hosts so you recognise them in future scans. Hosts outside the inventory show up as unknown.',
+    absent: 'missing',
+    name: 'Name',
+    namePlaceholder: '2nd floor printer',
+    tags: 'Tags',
+    tagsPlaceholder: 'office, printing',
+    ip: 'IP',
+    mac: 'MAC',
+    notes: 'Notes',
+    expected: 'Expected on the network'
+  },
+  devices: {
+    types: {
+      router: 'Router',
+      printer: 'Printer',
+      camera: 'IP camera',
+      nas: 'NAS',
+      media: 'Media / TV',
+      windows: 'Windows',
+      'linux-server': 'Linux server',
+      'web-server': 'Web server',
+      unknown: 'Unclassified'
+    },
+    explanation: (rule, matchedText) =>
+      [
+        rule.ports.length > 0 ? `${rule.exclusive ? 'only ' : ''}port(s) ${rule.ports.join(' + ')} open` : null,
+        matchedText ? `“${matchedText}” matches /${rule.pattern}/` : null
+      ]
+        .filter(Boolean)
+        .join(' and '),
+    noRule: 'No rule matches this host’s ports and banners.',
+    anyType: 'All types',
+    groupByType: 'Group by type',
+    rules: {
+      title: 'Classification rules',
+      count: (value) => plural(value, 'rule', 'rules'),
+      hint: 'Each live host takes the type of the most specific matching rule: every listed port open and, when a pattern is set, a title, server header, certificate or banner that satisfies it.',
+      add: 'New rule',
+      restore: 'Restore defaults',
+      edit: 'Edit',
+      empty: 'No active rules; every host shows up as unclassified.',
+      type: 'Type',
+      ports: 'Ports',
+      portsPlaceholder: '9100 + 631',
+      pattern: 'Pattern (regex)',
+      patternPlaceholder: 'laserjet|cups',
+      exclusive: 'Only these ports',
+      enabled: 'Enabled',
+      anyPort: 'any port',
+      errors: {
+        empty: 'Enter at least one port or a pattern.',
+        'invalid-port': 'Use port numbers between 1 and 65535 separated by commas or +.',
+        'invalid-pattern': 'Invalid regular expression.'
+      }
+    }
+  },
+  jobs: {
+    title: 'Server scans',
+    count: (value) => plural(value, 'job', 'jobs'),
+    readFailed: 'Could not query the server scans.',
+    empty: 'Scans submitted to POST /api/scans show up here; follow a running one to see its results live.',
+    statuses: {
+      queued: 'queued',
+      running: 'running',
+      finished: 'finished',
+      cancelled: 'cancelled',
+      failed: 'failed'
+    },
+    follow: 'Follow',
+    open: 'Open',
+    cancel: 'Cancel job',
+    refresh: 'Refresh'
+  },
+  cli: {
+    usage: (ports, threshold, rate) => `Usage: lan-scan <targets> [options]
+
+Targets use the same syntax as the web UI: 10.0.0.0/24, 10.0.0.1-50, !10.0.0.7, fd00::/120
+
+Options:
+  -p, --ports <list>       Ports, e.g. 80,443,8000-8100,9443/https (default: ${ports})
+  -t, --timeout <ms>       Per-port timeout (default: 2000)
+  -f, --format <format>    json | csv | table (default: table)
+  -s, --speed <profile>    gentle | normal | aggressive (default: normal)
+      --retry              Retry ports that did not answer
+      --fingerprint        Identify services (HTTP, TLS and banners)
+      --identify           Resolve name, MAC and vendor
+      --all                Include hosts that did not answer in the output
+  -y, --yes                Confirm scans above the probe limit
+  -h, --help               Show this help
+
+Scope policy (environment variables, shared with the server):
+  LAN_SCANNER_ALLOWLIST              Ranges allowed besides the private ones (RFC 1918 and link-local);
+                                     add 127.0.0.0/8 or ::1 to scan this machine
+  LAN_SCANNER_DENYLIST               Ranges that are always blocked
+  LAN_SCANNER_CONFIRM_THRESHOLD      Probes allowed without --yes (default: ${threshold})
+  LAN_SCANNER_MAX_PROBES_PER_SECOND  Maximum probe rate (default: ${rate})
+
+The language follows LC_ALL, LC_MESSAGES or LANG.
+
+Exit codes:
+  0    some host answered
+  1    no host answered
+  2    invalid arguments
+  3    unexpected failure
+  130  interrupted (Ctrl+C)`,
+    seeHelp: 'Use --help to see the options.',
+    invalidArguments: (detail) => `invalid arguments: ${detail}`,
+    missingTargets: 'provide at least one target.',
+    unknownFormat: (value) => `unknown format "${value}".`,
+    unknownSpeed: (value) => `unknown speed profile "${value}".`,
+    invalidTimeout: (value) => `invalid timeout "${value}".`,
+    progress: (completed, total, reachable) =>
+      `${count(completed)}/${count(total)} hosts · ${count(reachable)} responding`,
+    headers: ['IP', 'STATE', 'NAME', 'MAC', 'LATENCY', 'OPEN PORTS'],
+    responded: 'up',
+    noResponse: 'no response'
+  },
+  monitor: {
+    title: 'Continuous monitoring',
+    active: 'active',
+    stopped: 'stopped',
+    interval: 'Interval',
+    every: (minutes) => (minutes < 60 ? `every ${count(minutes)} min` : `every ${count(minutes / 60)} h`),
+    notify: 'Browser notifications',
+    notificationsBlocked: 'The browser blocked notifications for this site.',
+    webhook: 'Webhook (optional)',
+    webhookPlaceholder: 'http://192.168.0.10:8080/alerts',
+    invalidWebhook: 'Enter a valid http(s) URL.',
+    start: 'Start monitoring',
+    stop: 'Stop monitoring',
+    hint: 'Repeats the scan with the current targets and ports. The first run sets the baseline and later runs raise alerts when something changes.',
+    lastRun: 'Last run:',
+    nextRun: 'Next run:',
+    skipped: 'Run postponed: another scan was in progress.',
+    timeline: 'Timeline',
+    events: (value) => plural(value, 'event', 'events'),
+    clear: 'Clear',
+    empty: 'No changes recorded so far.',
+    notificationTitle: (value) => `${plural(value, 'change', 'changes')} on the network`,
+    more: (value) => `+${count(value)} more`,
+    describe: {
+      'host-up': (event) => `${subject(event)} appeared on the network.`,
+      'host-down': (event) => `${subject(event)} stopped responding.`,
+      'port-opened': (event) => `${subject(event)} opened port ${event.port} (${event.label}).`,
+      'port-closed': (event) => `${subject(event)} closed port ${event.port} (${event.label}).`
+    }
+  }
+};
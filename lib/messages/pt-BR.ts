@@ -0,0 +1,425 @@
+import type { ImportErrorCode } from '../resultsExport';
+import type { PortExpressionError, PortExpressionErrorCode } from '../ports';
+import type { BuiltinPortProfileId } from '../portProfiles';
+import type { TargetError, TargetErrorCode } from '../ipRange';
+import type { DeviceRule, DeviceType, RuleErrorCode } from '../deviceClassification';
+import type { MapCellState } from '../subnetMap';
+import type { MonitorEvent, MonitorEventKind } from '../monitoring';
+import type { ScanJobStatus } from '../scanJobs';
+import type { ScenarioErrorCode, SimulatedScenarioId } from '../simulatedNetwork';
+import type { PortStatus, ProbeMethod } from '../scanTypes';
+import type { ScanSpeed } from '../scanTuning';
+import type { SubnetSource } from '../subnetDiscovery';
+
+const count = new Intl.NumberFormat('pt-BR').format;
+
+const subject = (event: MonitorEvent) => (event.name ? `${event.name} (${event.ip})` : event.ip);
+
+export const ptBR = {
+  meta: {
+    title: 'LAN Scanner Pro',
+    description: 'Scanner de rede local no navegador para descobrir hosts rapidamente.'
+  },
+  locale: {
+    label: 'Idioma',
+    names: { 'pt-BR': 'Português (Brasil)', en: 'English' }
+  },
+  common: {
+    cancel: 'Cancelar',
+    delete: 'Excluir',
+    save: 'Salvar',
+    unnamed: 'sem nome'
+  },
+  page: {
+    title: 'Scanner LAN Avançado',
+    intro:
+      'Descubra dispositivos ativos na sua rede local diretamente do navegador. Configure o intervalo de IPs, ajuste os serviços desejados e acompanhe os resultados em tempo real. Para maior precisão, execute pelo mesmo segmento da rede alvo.',
+    rangeMode: 'Intervalo de IPs',
+    cidrMode: 'CIDR',
+    intervalMode: 'Faixa Manual',
+    engine: 'Motor de varredura',
+    browserEngine: 'Navegador',
+    serverEngine: 'Servidor (TCP)',
+    serverEngineHint: 'Conexões TCP reais a partir do servidor Next.js, sem limites do navegador.',
+    browserEngineHint: 'Sondagens HTTP/HTTPS feitas diretamente por este navegador.',
+    simulatedEngine: 'Simulado',
+    simulatedEngineHint: 'Rede virtual descrita por um cenário; nenhum pacote sai desta máquina e os resultados se repetem.',
+    scenario: 'Cenário',
+    scenarios: {
+      'home-lan': 'Rede doméstica',
+      'flaky-office': 'Escritório instável'
+    } satisfies Record<SimulatedScenarioId, string>,
+    customScenario: (name: string) => `Personalizado: ${name}`,
+    loadScenario: 'Carregar cenário JSON',
+    scenarioErrors: {
+      'invalid-json': () => 'O arquivo de cenário não é JSON válido.',
+      'invalid-field': (path?: string) => (path ? `Campo inválido no cenário: ${path}.` : 'O cenário deve ser um objeto JSON.')
+    } satisfies Record<ScenarioErrorCode, (path?: string) => string>,
+    useScenarioTargets: 'Usar alvos do cenário',
+    fingerprint: 'Identificar serviços (HTTP, TLS e banners)',
+    identify: 'Resolver nome, MAC e fabricante',
+    targets: 'Alvos',
+    targetsHint:
+      'Combine blocos CIDR, faixas (10.0.0.1-10.0.0.50 ou 10.0.0.1-50) e IPs avulsos separados por vírgula ou quebra de linha. IPv6 também é aceito (fd00::1, fd00::10-1f, fd00::/120). Use ! para excluir endereços.',
+    startIp: 'IP Inicial',
+    endIp: 'IP Final',
+    invalidStartIp: (value: string) => `IP inicial inválido: "${value}".`,
+    invalidEndIp: (value: string) => `IP final inválido: "${value}".`,
+    timeout: 'Timeout (ms)',
+    speed: 'Velocidade',
+    retryTimeouts: 'Repetir portas sem resposta (reduz falsos negativos em redes instáveis)',
+    start: 'Iniciar varredura',
+    scanning: 'Escaneando…',
+    paused: 'Pausado',
+    pause: 'Pausar',
+    resume: 'Retomar',
+    hostsInTarget: 'Hosts no alvo:',
+    progress: 'Progresso:',
+    responding: 'Respondendo:',
+    concurrency: 'Paralelismo atual:',
+    concurrencyUnit: 'host(s)',
+    error: 'Erro:',
+    scanFailed: 'Falha na varredura.',
+    calibration: 'Calibração: host inexistente',
+    calibrationNoResponse: 'sem resposta',
+    closedThreshold: 'limiar de porta fechada',
+    highlighted: 'Dispositivos em Destaque',
+    detected: (value: number) => `${count(value)} detectado(s)`,
+    noResponsiveHosts:
+      'Nenhum host respondeu dentro dos parâmetros definidos até o momento. Ajuste a faixa ou aumente o tempo de espera para resultados mais abrangentes.',
+    subnetMap: 'Mapa da sub-rede',
+    mapProgress: (completed: number, total: number) => `${count(completed)} / ${count(total)} endereço(s)`,
+    allResults: 'Todos os resultados',
+    processed: (value: number) => `${count(value)} processado(s)`,
+    resultsEmpty:
+      'A lista agregará todos os IPs analisados durante a varredura com o status de cada porta monitorada.',
+    inventoryInvalid: 'Informe um IP ou MAC válido para o dispositivo.'
+  },
+  scope: {
+    public: (value: number, sample: string) =>
+      `${count(value)} endereço(s) fora das faixas privadas (RFC 1918 e link-local) e da lista de permissão: ${sample}.`,
+    denied: (value: number, sample: string) => `${count(value)} endereço(s) bloqueado(s) pela lista de negação: ${sample}.`,
+    estimate: 'Estimativa:',
+    probes: (value: number) => `${count(value)} sondagem(ns)`,
+    upTo: (duration: string) => `até ${duration}`,
+    rateCap: (value: number) => `máx. ${count(value)} sondagens/s`,
+    confirmTitle: 'Confirmar varredura extensa',
+    confirmBody: (probes: number, threshold: number, duration: string) =>
+      `Esta varredura enviará ${count(probes)} sondagens, acima do limite de ${count(threshold)} sem confirmação, e pode levar até ${duration}.`,
+    confirm: 'Confirmar e iniciar'
+  },
+  speeds: {
+    gentle: 'Suave',
+    normal: 'Normal',
+    aggressive: 'Agressivo'
+  } satisfies Record<ScanSpeed, string>,
+  portStatus: {
+    open: 'ativo',
+    closed: 'fechada',
+    filtered: 'filtrada',
+    unknown: 'n/d'
+  } satisfies Record<PortStatus, string>,
+  probeMethods: {
+    fetch: 'fetch',
+    'fetch-head': 'fetch HEAD',
+    image: 'imagem',
+    websocket: 'WebSocket',
+    tcp: 'TCP',
+    simulated: 'simulado'
+  } satisfies Record<ProbeMethod, string>,
+  confidence: (value: string) => `Confiança: ${value}`,
+  targetErrors: {
+    empty: () => 'Informe ao menos um endereço, faixa ou bloco CIDR.',
+    'invalid-address': (error: TargetError) => `Endereço inválido em "${error.token}".`,
+    'invalid-prefix': (error: TargetError) =>
+      `Prefixo CIDR inválido em "${error.token}" (use /0 a /32, ou /0 a /128 para IPv6).`,
+    'invalid-range': (error: TargetError) => `Faixa inválida em "${error.token}".`,
+    'reversed-range': (error: TargetError) => `O endereço final vem antes do inicial em "${error.token}".`,
+    'ipv6-too-large': (error: TargetError) =>
+      `O bloco IPv6 "${error.token}" cobre ${count(error.requested ?? 0)} endereços; o limite por bloco é ${count(error.limit ?? 0)}.`,
+    'too-many-hosts': (error: TargetError) =>
+      `A seleção cobre ${count(error.requested ?? 0)} endereços; o limite é ${count(error.limit ?? 0)}.`
+  } satisfies Record<TargetErrorCode, (error: TargetError) => string>,
+  portErrors: {
+    'invalid-port': (error: PortExpressionError) => `Porta inválida: "${error.token}" (use 1 a 65535).`,
+    'invalid-range': (error: PortExpressionError) => `Faixa de portas invertida em "${error.token}".`,
+    'invalid-protocol': (error: PortExpressionError) =>
+      `Protocolo inválido em "${error.token}" (use /http ou /https).`,
+    'too-many-ports': (error: PortExpressionError) =>
+      `Limite de ${count(error.limit ?? 0)} portas por varredura excedido em "${error.token}".`
+  } satisfies Record<PortExpressionErrorCode, (error: PortExpressionError) => string>,
+  importErrors: {
+    'not-a-report': () => 'O arquivo JSON não é um relatório do LAN Scanner Pro.',
+    'unsupported-version': (detail?: string) => `Versão de relatório não suportada: ${detail ?? '?'}.`,
+    'invalid-config': () => 'Configuração de varredura inválida no relatório.',
+    'invalid-host-entry': (detail?: string) => `Entrada de host inválida (${detail ?? '?'}).`,
+    'invalid-port-entry': (detail?: string) => `Entrada de porta inválida (${detail ?? '?'}).`,
+    'unknown-csv-header': () => 'Cabeçalho CSV não reconhecido.',
+    'missing-nmaprun': () => 'O XML não contém um elemento <nmaprun>.',
+    unreadable: (detail?: string) => (detail ? `Não foi possível ler o arquivo: ${detail}` : 'Arquivo inválido.')
+  } satisfies Record<ImportErrorCode, (detail?: string) => string>,
+  scanErrors: {
+    invalidBody: 'Corpo da requisição inválido.',
+    missingTargets: 'Campo "targets" é obrigatório.',
+    missingPorts: 'Informe ao menos uma porta válida.',
+    confirmationRequired: (probes: number, limit: number) =>
+      `A varredura envolve ${count(probes)} sondagens (limite sem confirmação: ${count(limit)}); confirme para prosseguir ("confirmed": true na API, --yes na CLI).`,
+    queueFull: (limit: number) => `Fila cheia: ${count(limit)} varreduras já aguardam execução.`,
+    jobNotFound: (id: string) => `Varredura "${id}" não encontrada.`,
+    httpStatus: (status: number) => `O servidor respondeu com HTTP ${status}.`,
+    scanFailed: 'Falha na varredura.',
+    historyUnavailable: 'IndexedDB indisponível neste navegador.',
+    noProbeStrategy: 'Nenhuma estratégia de sondagem disponível neste ambiente.'
+  },
+  subnetPicker: {
+    detecting: 'Detectando redes…',
+    detected: (value: number) => `Redes detectadas (${count(value)})`,
+    redetect: 'Detectar novamente',
+    sources: {
+      location: 'endereço da página',
+      webrtc: 'WebRTC',
+      server: 'servidor',
+      history: 'varredura recente',
+      default: 'padrão'
+    } satisfies Record<SubnetSource, string>
+  },
+  portSelector: {
+    title: 'Serviços / Portas',
+    deleteProfile: 'Excluir perfil',
+    toggleProtocol: 'Alternar protocolo',
+    addPorts: 'Adicionar portas',
+    profileNamePlaceholder: 'Nome do perfil (ex.: impressoras do escritório)',
+    saveProfile: 'Salvar perfil',
+    hint: 'A varredura utiliza tentativas HTTP/HTTPS passivas para identificar dispositivos respondendo nessas portas.',
+    builtinProfiles: {
+      default: 'Padrão',
+      printers: 'Impressoras',
+      cameras: 'Câmeras',
+      'dev-servers': 'Servidores de desenvolvimento'
+    } satisfies Record<BuiltinPortProfileId, string>
+  },
+  hostCard: {
+    active: 'ativo',
+    updatedAt: (time: string) => `atualizado ${time}`,
+    issuer: 'Emissor',
+    expires: 'Expira',
+    vendor: 'Fabricante',
+    agreement: (agreeing: number, total: number) => `${count(agreeing)}/${count(total)} estratégia(s) concordam`,
+    evidence: (method: string, status: string, confidence: string) => `${method}: ${status} (${confidence})`
+  },
+  inventoryBadge: {
+    matchedByMac: 'Identificado por MAC',
+    matchedByIp: 'Identificado por IP',
+    outsideInventory: 'Host fora do inventário',
+    unknown: 'desconhecido'
+  },
+  resultsTable: {
+    searchPlaceholder: 'Buscar por IP, nome, MAC, fabricante, tag…',
+    anyPort: 'Qualquer porta',
+    portOpen: (port: number) => `Porta ${port} aberta`,
+    reachableOnly: 'Apenas ativos',
+    unknownOnly: 'Apenas desconhecidos',
+    shown: (visible: number, total: number) => `${count(visible)} de ${count(total)}`,
+    ip: 'IP',
+    inventory: 'Inventário',
+    latency: 'Latência',
+    openPorts: 'Abertas',
+    name: 'Nome',
+    mac: 'MAC',
+    vendor: 'Fabricante',
+    anyType: 'Qualquer tipo',
+    type: 'Tipo',
+    noMatches: 'Nenhum host corresponde aos filtros atuais.'
+  },
+  subnetMap: {
+    cells: {
+      outside: 'fora do alvo',
+      pending: 'pendente',
+      scanning: 'em varredura',
+      silent: 'sem resposta',
+      responsive: 'ativo'
+    } satisfies Record<MapCellState, string>,
+    empty: 'O mapa mostra cada endereço da faixa em blocos de 256 células por /24 assim que uma varredura começa.',
+    silentHost: (ports: number) => `não respondeu em nenhuma das ${count(ports)} porta(s) testadas.`,
+    scanningHost: 'está sendo varrido agora.',
+    pendingHost: 'ainda não foi varrido.'
+  },
+  history: {
+    title: 'Histórico de varreduras',
+    saved: (value: number) => `${count(value)} salva(s)`,
+    readFailed: 'Falha ao ler o histórico.',
+    empty: 'Cada varredura concluída é salva neste navegador para consulta e comparação posterior.',
+    hostsUnit: 'host(s)',
+    open: 'Abrir',
+    base: 'Base',
+    compareWith: 'Comparar com',
+    compare: 'Comparar',
+    noChanges: 'Nenhuma mudança entre as duas varreduras.',
+    newHosts: (value: number) => `Novos hosts (${count(value)})`,
+    missingHosts: (value: number) => `Hosts ausentes (${count(value)})`,
+    changedPorts: (value: number) => `Portas alteradas (${count(value)})`,
+    opened: 'abriu',
+    closed: 'fechou'
+  },
+  transfer: {
+    import: 'Importar'
+  },
+  inventory: {
+    title: 'Inventário de dispositivos',
+    registered: (value: number) => `${count(value)} cadastrado(s)`,
+    add: 'Adicionar',
+    edit: 'Editar',
+    missing: (value: number) => `${count(value)} dispositivo(s) esperado(s) não responderam nesta varredura.`,
+    empty:
+      'Dê nomes, tags e notas aos hosts encontrados para reconhecê-los nas próximas varreduras. Hosts fora do inventário aparecem como desconhecidos.',
+    absent: 'ausente',
+    name: 'Nome',
+    namePlaceholder: 'Impressora 2º andar',
+    tags: 'Tags',
+    tagsPlaceholder: 'escritório, impressão',
+    ip: 'IP',
+    mac: 'MAC',
+    notes: 'Notas',
+    expected: 'Esperado na rede'
+  },
+  devices: {
+    types: {
+      router: 'Roteador',
+      printer: 'Impressora',
+      camera: 'Câmera IP',
+      nas: 'NAS',
+      media: 'Mídia / TV',
+      windows: 'Windows',
+      'linux-server': 'Servidor Linux',
+      'web-server': 'Servidor web',
+      unknown: 'Não classificado'
+    } satisfies Record<DeviceType, string>,
+    explanation: (rule: DeviceRule, matchedText: string | null) =>
+      [
+        rule.ports.length > 0
+          ? `${rule.exclusive ? 'apenas ' : ''}porta(s) ${rule.ports.join(' + ')} aberta(s)`
+          : null,
+        matchedText ? `“${matchedText}” corresponde a /${rule.pattern}/` : null
+      ]
+        .filter(Boolean)
+        .join(' e '),
+    noRule: 'Nenhuma regra corresponde às portas e banners deste host.',
+    anyType: 'Todos os tipos',
+    groupByType: 'Agrupar por tipo',
+    rules: {
+      title: 'Regras de classificação',
+      count: (value: number) => `${count(value)} regra(s)`,
+      hint: 'Cada host ativo recebe o tipo da regra mais específica que casar: todas as portas listadas abertas e, se houver padrão, um título, servidor, certificado ou banner que o satisfaça.',
+      add: 'Nova regra',
+      restore: 'Restaurar padrões',
+      edit: 'Editar',
+      empty: 'Nenhuma regra ativa; todos os hosts aparecem como não classificados.',
+      type: 'Tipo',
+      ports: 'Portas',
+      portsPlaceholder: '9100 + 631',
+      pattern: 'Padrão (regex)',
+      patternPlaceholder: 'laserjet|cups',
+      exclusive: 'Somente estas portas',
+      enabled: 'Ativa',
+      anyPort: 'qualquer porta',
+      errors: {
+        empty: 'Informe ao menos uma porta ou um padrão.',
+        'invalid-port': 'Use números de porta entre 1 e 65535 separados por vírgula ou +.',
+        'invalid-pattern': 'Expressão regular inválida.'
+      } satisfies Record<RuleErrorCode, string>
+    }
+  },
+  jobs: {
+    title: 'Varreduras no servidor',
+    count: (value: number) => `${count(value)} job(s)`,
+    readFailed: 'Falha ao consultar as varreduras do servidor.',
+    empty: 'Varreduras enviadas para POST /api/scans aparecem aqui; acompanhe uma em andamento para ver os resultados ao vivo.',
+    statuses: {
+      queued: 'na fila',
+      running: 'em execução',
+      finished: 'concluída',
+      cancelled: 'cancelada',
+      failed: 'falhou'
+    } satisfies Record<ScanJobStatus, string>,
+    follow: 'Acompanhar',
+    open: 'Abrir',
+    cancel: 'Cancelar job',
+    refresh: 'Atualizar'
+  },
+  cli: {
+    usage: (ports: string, threshold: number, rate: number) => `Uso: lan-scan <alvos> [opções]
+
+Alvos aceitam a mesma sintaxe da interface: 10.0.0.0/24, 10.0.0.1-50, !10.0.0.7, fd00::/120
+
+Opções:
+  -p, --ports <lista>      Portas, ex.: 80,443,8000-8100,9443/https (padrão: ${ports})
+  -t, --timeout <ms>       Tempo limite por porta (padrão: 2000)
+  -f, --format <formato>   json | csv | table (padrão: table)
+  -s, --speed <perfil>     gentle | normal | aggressive (padrão: normal)
+      --retry              Repete portas que não responderam
+      --fingerprint        Identifica serviços (HTTP, TLS e banners)
+      --identify           Resolve nome, MAC e fabricante
+      --all                Inclui hosts que não responderam na saída
+  -y, --yes                Confirma varreduras acima do limite de sondagens
+  -h, --help               Mostra esta ajuda
+
+Política de escopo (variáveis de ambiente, as mesmas do servidor):
+  LAN_SCANNER_ALLOWLIST              Faixas liberadas além das privadas (RFC 1918 e link-local);
+                                     inclua 127.0.0.0/8 ou ::1 para varrer esta máquina
+  LAN_SCANNER_DENYLIST               Faixas sempre bloqueadas
+  LAN_SCANNER_CONFIRM_THRESHOLD      Sondagens permitidas sem --yes (padrão: ${threshold})
+  LAN_SCANNER_MAX_PROBES_PER_SECOND  Taxa máxima de sondagens (padrão: ${rate})
+
+O idioma segue LC_ALL, LC_MESSAGES ou LANG.
+
+Códigos de saída:
+  0    algum host respondeu
+  1    nenhum host respondeu
+  2    argumentos inválidos
+  3    falha inesperada
+  130  interrompido (Ctrl+C)`,
+    seeHelp: 'Use --help para ver as opções.',
+    invalidArguments: (detail: string) => `argumentos inválidos: ${detail}`,
+    missingTargets: 'informe ao menos um alvo.',
+    unknownFormat: (value: string) => `formato desconhecido "${value}".`,
+    unknownSpeed: (value: string) => `perfil de velocidade desconhecido "${value}".`,
+    invalidTimeout: (value: string) => `tempo limite inválido "${value}".`,
+    progress: (completed: number, total: number, reachable: number) =>
+      `${count(completed)}/${count(total)} hosts · ${count(reachable)} ativo(s)`,
+    headers: ['IP', 'ESTADO', 'NOME', 'MAC', 'LATÊNCIA', 'PORTAS ABERTAS'],
+    responded: 'ativo',
+    noResponse: 'sem resposta'
+  },
+  monitor: {
+    title: 'Monitoramento contínuo',
+    active: 'ativo',
+    stopped: 'parado',
+    interval: 'Intervalo',
+    every: (minutes: number) => (minutes < 60 ? `a cada ${count(minutes)} min` : `a cada ${count(minutes / 60)} h`),
+    notify: 'Notificações do navegador',
+    notificationsBlocked: 'O navegador bloqueou as notificações deste site.',
+    webhook: 'Webhook (opcional)',
+    webhookPlaceholder: 'http://192.168.0.10:8080/alertas',
+    invalidWebhook: 'Informe uma URL http(s) válida.',
+    start: 'Iniciar monitoramento',
+    stop: 'Parar monitoramento',
+    hint: 'Repete a varredura com os alvos e portas atuais. A primeira execução define a linha de base e as seguintes geram alertas quando algo muda.',
+    lastRun: 'Última execução:',
+    nextRun: 'Próxima execução:',
+    skipped: 'Execução adiada: outra varredura estava em andamento.',
+    timeline: 'Linha do tempo',
+    events: (value: number) => `${count(value)} evento(s)`,
+    clear: 'Limpar',
+    empty: 'Nenhuma mudança registrada até agora.',
+    notificationTitle: (value: number) => `${count(value)} mudança(s) na rede`,
+    more: (value: number) => `+${count(value)} outra(s)`,
+    describe: {
+      'host-up': (event: MonitorEvent) => `${subject(event)} apareceu na rede.`,
+      'host-down': (event: MonitorEvent) => `${subject(event)} deixou de responder.`,
+      'port-opened': (event: MonitorEvent) => `${subject(event)} abriu a porta ${event.port} (${event.label}).`,
+      'port-closed': (event: MonitorEvent) => `${subject(event)} fechou a porta ${event.port} (${event.label}).`
+    } satisfies Record<MonitorEventKind, (event: MonitorEvent) => string>
+  }
+};
+
+export type Messages = typeof ptBR;
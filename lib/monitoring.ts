@@ -0,0 +1,168 @@
+import { diffScans, type ScanRun } from './scanDiff';
+import type { HostScanResult } from './scanTypes';
+
+export type MonitorEventKind = 'host-up' | 'host-down' | 'port-opened' | 'port-closed';
+
+export type MonitorEvent = {
+  id: string;
+  at: number;
+  kind: MonitorEventKind;
+  ip: string;
+  name: string | null;
+  port?: number;
+  label?: string;
+};
+
+export type MonitorSettings = {
+  intervalMinutes: number;
+  notify: boolean;
+  webhookUrl: string;
+};
+
+export type MonitorWebhookPayload = {
+  source: 'lan-scanner';
+  targets: string;
+  scannedAt: number;
+  events: MonitorEvent[];
+};
+
+export type HostNamer = (host: HostScanResult) => string | null;
+
+const SETTINGS_KEY = 'lan-scanner:monitor-settings';
+const TIMELINE_KEY = 'lan-scanner:monitor-timeline';
+
+export const MONITOR_INTERVAL_OPTIONS = [1, 5, 15, 30, 60, 240];
+export const MAX_TIMELINE_EVENTS = 500;
+
+export const DEFAULT_MONITOR_SETTINGS: MonitorSettings = {
+  intervalMinutes: 15,
+  notify: true,
+  webhookUrl: ''
+};
+
+const KNOWN_KINDS: MonitorEventKind[] = ['host-up', 'host-down', 'port-opened', 'port-closed'];
+
+export function detectChanges(
+  before: ScanRun,
+  after: ScanRun,
+  at: number,
+  nameOf: HostNamer = () => null
+): MonitorEvent[] {
+  const diff = diffScans(before, after);
+  const byIp = new Map(after.results.map((host) => [host.ip, host] as const));
+  let sequence = 0;
+  const event = (kind: MonitorEventKind, host: HostScanResult, extra: Partial<MonitorEvent> = {}): MonitorEvent => ({
+    id: `${at.toString(36)}-${(sequence += 1)}`,
+    at,
+    kind,
+    ip: host.ip,
+    name: nameOf(host),
+    ...extra
+  });
+
+  return [
+    ...diff.newHosts.map((host) => event('host-up', host)),
+    ...diff.missingHosts.map((host) => event('host-down', host)),
+    ...diff.portChanges.flatMap((change) => {
+      const host = byIp.get(change.ip);
+      return host
+        ? [
+            event(change.change === 'opened' ? 'port-opened' : 'port-closed', host, {
+              port: change.port,
+              label: change.label
+            })
+          ]
+        : [];
+    })
+  ];
+}
+
+function readJson(key: string): unknown {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(key, JSON.stringify(value));
+}
+
+export function loadMonitorSettings(): MonitorSettings {
+  const stored = readJson(SETTINGS_KEY) as Partial<MonitorSettings> | null;
+  return {
+    intervalMinutes:
+      stored && MONITOR_INTERVAL_OPTIONS.includes(stored.intervalMinutes as number)
+        ? (stored.intervalMinutes as number)
+        : DEFAULT_MONITOR_SETTINGS.intervalMinutes,
+    notify: typeof stored?.notify === 'boolean' ? stored.notify : DEFAULT_MONITOR_SETTINGS.notify,
+    webhookUrl: typeof stored?.webhookUrl === 'string' ? stored.webhookUrl : DEFAULT_MONITOR_SETTINGS.webhookUrl
+  };
+}
+
+export function saveMonitorSettings(settings: MonitorSettings) {
+  writeJson(SETTINGS_KEY, settings);
+}
+
+function isMonitorEvent(value: unknown): value is MonitorEvent {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Partial<MonitorEvent>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.at === 'number' &&
+    typeof entry.ip === 'string' &&
+    KNOWN_KINDS.includes(entry.kind as MonitorEventKind)
+  );
+}
+
+export function loadTimeline(): MonitorEvent[] {
+  const stored = readJson(TIMELINE_KEY);
+  return Array.isArray(stored) ? stored.filter(isMonitorEvent) : [];
+}
+
+export function appendTimeline(timeline: MonitorEvent[], events: MonitorEvent[]): MonitorEvent[] {
+  const next = [...events, ...timeline].slice(0, MAX_TIMELINE_EVENTS);
+  writeJson(TIMELINE_KEY, next);
+  return next;
+}
+
+export function clearTimeline(): MonitorEvent[] {
+  writeJson(TIMELINE_KEY, []);
+  return [];
+}
+
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export async function postWebhook(url: string, payload: MonitorWebhookPayload): Promise<boolean> {
+  try {
+    // A JSON content type would trigger a CORS preflight that small local receivers rarely answer, so the body is
+    // sent as text and the response stays opaque.
+    await fetch(url, {
+      method: 'POST',
+      mode: 'no-cors',
+      keepalive: true,
+      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+      body: JSON.stringify(payload)
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+// Offline subset of the IEEE MA-L (OUI) registry, limited to vendors commonly found on home and office LANs.
+// Keys are the first three octets of the MAC address in upper-case hex without separators.
+const OUI_VENDORS: Record<string, string> = {
+  '000393': 'Apple',
+  '001B63': 'Apple',
+  '002500': 'Apple',
+  '28CFE9': 'Apple',
+  '3C0754': 'Apple',
+  'A483E7': 'Apple',
+  'ACBC32': 'Apple',
+  'F01898': 'Apple',
+  '001A11': 'Google',
+  '3C5AB4': 'Google',
+  'F4F5D8': 'Google',
+  '18B430': 'Nest Labs',
+  '44650D': 'Amazon Technologies',
+  'F0D2F1': 'Amazon Technologies',
+  '001632': 'Samsung Electronics',
+  '000C29': 'VMware',
+  '000569': 'VMware',
+  '005056': 'VMware',
+  '080027': 'Oracle VirtualBox',
+  '00155D': 'Microsoft Hyper-V',
+  '00163E': 'Xen',
+  'B827EB': 'Raspberry Pi Foundation',
+  '28CDC1': 'Raspberry Pi Trading',
+  'D83ADD': 'Raspberry Pi Trading',
+  'DCA632': 'Raspberry Pi Trading',
+  'E45F01': 'Raspberry Pi Trading',
+  '18FE34': 'Espressif',
+  '240AC4': 'Espressif',
+  '246F28': 'Espressif',
+  '30AEA4': 'Espressif',
+  '5CCF7F': 'Espressif',
+  '600194': 'Espressif',
+  '84CCA8': 'Espressif',
+  '84F3EB': 'Espressif',
+  'A4CF12': 'Espressif',
+  'BCDDC2': 'Espressif',
+  'CC50E3': 'Espressif',
+  'ECFABC': 'Espressif',
+  '001788': 'Philips Lighting',
+  '000E58': 'Sonos',
+  '5CAAFD': 'Sonos',
+  '949F3E': 'Sonos',
+  'B8E937': 'Sonos',
+  'B0A737': 'Roku',
+  'DC3A5E': 'Roku',
+  '2CAA8E': 'Wyze Labs',
+  '00D9D1': 'Sony Interactive Entertainment',
+  '0009BF': 'Nintendo',
+  '001F32': 'Nintendo',
+  '98B6E9': 'Nintendo',
+  '001132': 'Synology',
+  '00089B': 'QNAP Systems',
+  '245EBE': 'QNAP Systems',
+  '00408C': 'Axis Communications',
+  'ACCC8E': 'Axis Communications',
+  '4419B6': 'Hikvision',
+  'BCAD28': 'Hikvision',
+  'C056E3': 'Hikvision',
+  '3CEF8C': 'Dahua Technology',
+  '9002A9': 'Dahua Technology',
+  'E0508B': 'Dahua Technology',
+  '001A3F': 'Intelbras',
+  '3CD92B': 'Hewlett Packard',
+  '0017A4': 'Hewlett Packard',
+  '008077': 'Brother Industries',
+  '001BA9': 'Brother Industries',
+  '30055C': 'Brother Industries',
+  '0026AB': 'Seiko Epson',
+  '64EB8C': 'Seiko Epson',
+  'A4EE57': 'Seiko Epson',
+  '000085': 'Canon',
+  '001E8F': 'Canon',
+  '00156D': 'Ubiquiti',
+  '002722': 'Ubiquiti',
+  '0418D6': 'Ubiquiti',
+  '24A43C': 'Ubiquiti',
+  '44D9E7': 'Ubiquiti',
+  '687251': 'Ubiquiti',
+  '788A20': 'Ubiquiti',
+  '802AA8': 'Ubiquiti',
+  'B4FBE4': 'Ubiquiti',
+  'DC9FDB': 'Ubiquiti',
+  'F09FC2': 'Ubiquiti',
+  'FCECDA': 'Ubiquiti',
+  '14CC20': 'TP-Link',
+  '50C7BF': 'TP-Link',
+  '98DAC4': 'TP-Link',
+  'C04A00': 'TP-Link',
+  'EC086B': 'TP-Link',
+  'F4F26D': 'TP-Link',
+  '00095B': 'Netgear',
+  '00146C': 'Netgear',
+  '204E7F': 'Netgear',
+  'A040A0': 'Netgear',
+  'C40415': 'Netgear',
+  '00000C': 'Cisco Systems',
+  '00180A': 'Cisco Meraki',
+  '881544': 'Cisco Meraki',
+  'E0553D': 'Cisco Meraki',
+  '000C42': 'MikroTik',
+  '4C5E0C': 'MikroTik',
+  '64D154': 'MikroTik',
+  '6C3B6B': 'MikroTik',
+  'B869F4': 'MikroTik',
+  'CC2DE0': 'MikroTik',
+  'D4CA6D': 'MikroTik',
+  'E48D8C': 'MikroTik',
+  '00040E': 'AVM',
+  '3CA62F': 'AVM',
+  '7CFF4D': 'AVM',
+  'C80E14': 'AVM',
+  '001A92': 'ASUSTek Computer',
+  '2C56DC': 'ASUSTek Computer',
+  'AC220B': 'ASUSTek Computer',
+  '00E0FC': 'Huawei Technologies',
+  '00E04C': 'Realtek Semiconductor',
+  '001B21': 'Intel',
+  '001422': 'Dell',
+  'B8CA3A': 'Dell',
+  'F8BC12': 'Dell',
+  '286C07': 'Xiaomi',
+  '640980': 'Xiaomi',
+  '7811DC': 'Xiaomi',
+  '7C49EB': 'Xiaomi'
+};
+
+export function normalizeMac(value: string): string | null {
+  const hex = value.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  if (hex.length !== 12 || /^0+$/.test(hex)) {
+    return null;
+  }
+  return hex.match(/.{2}/g)?.join(':') ?? null;
+}
+
+export function isLocallyAdministered(mac: string): boolean {
+  const firstOctet = Number.parseInt(mac.slice(0, 2), 16);
+  return Number.isFinite(firstOctet) && (firstOctet & 0x02) !== 0;
+}
+
+export function lookupVendor(mac: string): string | null {
+  const normalized = normalizeMac(mac);
+  if (!normalized) {
+    return null;
+  }
+  return OUI_VENDORS[normalized.replace(/:/g, '').slice(0, 6)] ?? null;
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { combineEvidence } from './portClassification';
+import type { PortStatus, ProbeEvidence } from './scanTypes';
+
+function evidence(status: PortStatus, confidence: number): ProbeEvidence {
+  return { method: 'fetch', status, confidence, latencyMs: null };
+}
+
+describe('combineEvidence', () => {
+  it('returns unknown without evidence', () => {
+    assert.deepEqual(combineEvidence([]), { status: 'unknown', confidence: 0 });
+  });
+
+  it('returns unknown when no strategy has any confidence', () => {
+    assert.deepEqual(combineEvidence([evidence('filtered', 0), evidence('closed', 0)]), {
+      status: 'unknown',
+      confidence: 0
+    });
+  });
+
+  it('reinforces agreeing strategies', () => {
+    assert.deepEqual(combineEvidence([evidence('open', 0.8), evidence('open', 0.6)]), {
+      status: 'open',
+      confidence: 0.92
+    });
+  });
+
+  it('lets disagreement cost confidence', () => {
+    assert.deepEqual(combineEvidence([evidence('open', 0.6), evidence('closed', 0.3)]), {
+      status: 'open',
+      confidence: 0.4
+    });
+  });
+});
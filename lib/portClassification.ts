@@ -0,0 +1,115 @@
+import type { PortStatus, ProbeEvidence, ProbeMethod, TimingCalibration } from './scanTypes';
+
+export type ProbeOutcomeKind = 'success' | 'error' | 'timeout';
+
+export type ProbeObservation = {
+  method: ProbeMethod;
+  outcome: ProbeOutcomeKind;
+  elapsedMs: number;
+  timeoutMs: number;
+};
+
+export type PortVerdict = {
+  status: PortStatus;
+  confidence: number;
+};
+
+export const DEFAULT_CLOSED_THRESHOLD_MS = 60;
+
+const MIN_CLOSED_THRESHOLD_MS = 15;
+const MAX_CLOSED_THRESHOLD_MS = 400;
+const MAX_COMBINED_CONFIDENCE = 0.99;
+
+// Methods whose slow failure still proves a handshake: the image decoder and the WebSocket upgrade both reject
+// whatever a non-matching service answers, but only after it answered.
+const HANDSHAKE_METHODS: ProbeMethod[] = ['image', 'websocket'];
+
+const STATUS_PRECEDENCE: PortStatus[] = ['open', 'closed', 'filtered', 'unknown'];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function deriveClosedThreshold(deadHostMs: number | null, referenceRttMs: number | null): number {
+  let threshold = referenceRttMs !== null ? referenceRttMs * 3 : DEFAULT_CLOSED_THRESHOLD_MS;
+  if (deadHostMs !== null) {
+    threshold = Math.min(threshold, deadHostMs * 0.5);
+  }
+  return clamp(threshold, MIN_CLOSED_THRESHOLD_MS, MAX_CLOSED_THRESHOLD_MS);
+}
+
+function matchesDeadHost(elapsedMs: number, calibration: TimingCalibration | null): boolean {
+  if (!calibration || calibration.deadHostMs === null) {
+    return false;
+  }
+  const tolerance = Math.max(calibration.deadHostMs * 0.25, 30);
+  return Math.abs(elapsedMs - calibration.deadHostMs) <= tolerance;
+}
+
+export function classifyObservation(
+  observation: ProbeObservation,
+  calibration: TimingCalibration | null
+): PortVerdict {
+  const { method, outcome, elapsedMs, timeoutMs } = observation;
+
+  if (outcome === 'success') {
+    return { status: 'open', confidence: method === 'fetch' || method === 'fetch-head' ? 0.95 : 0.9 };
+  }
+
+  if (outcome === 'timeout' || elapsedMs >= timeoutMs) {
+    const deadHostAlsoTimesOut = calibration !== null && calibration.deadHostMs === null;
+    return { status: 'filtered', confidence: deadHostAlsoTimesOut ? 0.75 : 0.6 };
+  }
+
+  if (matchesDeadHost(elapsedMs, calibration)) {
+    return { status: 'filtered', confidence: 0.55 };
+  }
+
+  const closedThreshold = calibration?.closedThresholdMs ?? DEFAULT_CLOSED_THRESHOLD_MS;
+
+  if (elapsedMs <= closedThreshold) {
+    const margin = 1 - elapsedMs / closedThreshold;
+    return { status: 'closed', confidence: round(clamp(0.5 + margin * 0.35, 0.5, 0.85)) };
+  }
+
+  // A slower error means the handshake completed: the image loader rejects any non-image body and
+  // fetch rejects TLS or protocol failures, both of which need a listening service on the other end.
+  const spread = clamp((elapsedMs - closedThreshold) / closedThreshold, 0, 1);
+  if (HANDSHAKE_METHODS.includes(method)) {
+    return { status: 'open', confidence: round(0.55 + spread * 0.2) };
+  }
+
+  return { status: 'unknown', confidence: round(0.3 + spread * 0.2) };
+}
+
+// Weighted vote: each strategy backs its status with its own confidence. Agreeing strategies reinforce each other
+// (1 - Π(1 - c)), and the result is scaled by the winner's share of the total weight so disagreement costs confidence.
+export function combineEvidence(evidence: ProbeEvidence[]): PortVerdict {
+  if (evidence.length === 0) {
+    return { status: 'unknown', confidence: 0 };
+  }
+
+  const weights = new Map<PortStatus, number>();
+  evidence.forEach((entry) => weights.set(entry.status, (weights.get(entry.status) ?? 0) + entry.confidence));
+  const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  // Zero-confidence evidence backs nothing; without this the precedence order alone would declare the port open.
+  if (total === 0) {
+    return { status: 'unknown', confidence: 0 };
+  }
+  const status = STATUS_PRECEDENCE.reduce((best, candidate) =>
+    (weights.get(candidate) ?? 0) > (weights.get(best) ?? 0) ? candidate : best
+  );
+
+  const agreeing = evidence.filter((entry) => entry.status === status);
+  const reinforced = 1 - agreeing.reduce((remaining, entry) => remaining * (1 - entry.confidence), 1);
+  const share = (weights.get(status) ?? 0) / total;
+  return { status, confidence: round(clamp(reinforced * share, 0, MAX_COMBINED_CONFIDENCE)) };
+}
+
+export function isOpen(status: PortStatus): boolean {
+  return status === 'open';
+}
@@ -0,0 +1,102 @@
+import { DEFAULT_PORTS, describePort, isPortDescriptor, sortPorts, type PortDescriptor } from './ports';
+
+export type BuiltinPortProfileId = 'default' | 'printers' | 'cameras' | 'dev-servers';
+
+// Built-in profiles are named by the message catalogs; only custom profiles carry a name of their own.
+export type BuiltinPortProfile = { id: BuiltinPortProfileId; ports: PortDescriptor[]; builtin: true };
+
+export type CustomPortProfile = { id: string; name: string; ports: PortDescriptor[]; builtin: false };
+
+export type PortProfile = BuiltinPortProfile | CustomPortProfile;
+
+const STORAGE_KEY = 'lan-scanner:port-profiles';
+
+const withPorts = (ports: number[]) => ports.map((port) => describePort(port));
+
+export const BUILTIN_PORT_PROFILES: BuiltinPortProfile[] = [
+  { id: 'default', ports: DEFAULT_PORTS, builtin: true },
+  { id: 'printers', ports: withPorts([80, 443, 515, 631, 9100]), builtin: true },
+  { id: 'cameras', ports: withPorts([80, 443, 554, 8000, 8080]), builtin: true },
+  { id: 'dev-servers', ports: withPorts([3000, 4200, 5000, 5173, 8000, 8080, 8888]), builtin: true }
+];
+
+function readStoredProfiles(): CustomPortProfile[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed.flatMap((entry) => {
+      if (!entry || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !Array.isArray(entry.ports)) {
+        return [];
+      }
+      return [
+        {
+          id: entry.id,
+          name: entry.name,
+          ports: sortPorts(entry.ports.filter(isPortDescriptor)),
+          builtin: false
+        }
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function loadPortProfiles(): PortProfile[] {
+  return [...BUILTIN_PORT_PROFILES, ...readStoredProfiles()];
+}
+
+function writeStoredProfiles(profiles: PortProfile[]) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const custom = profiles
+    .filter((profile): profile is CustomPortProfile => !profile.builtin)
+    .map(({ id, name, ports }) => ({ id, name, ports }));
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+}
+
+function slugify(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function savePortProfile(profiles: PortProfile[], name: string, ports: PortDescriptor[]): {
+  profiles: PortProfile[];
+  profile: CustomPortProfile;
+} {
+  const trimmed = name.trim();
+  const existing = profiles.find((profile) => !profile.builtin && profile.name === trimmed);
+  const profile: CustomPortProfile = {
+    id: existing?.id ?? `custom-${slugify(trimmed) || 'perfil'}-${Date.now().toString(36)}`,
+    name: trimmed,
+    ports: sortPorts(ports),
+    builtin: false
+  };
+
+  const next = existing
+    ? profiles.map((entry) => (entry.id === existing.id ? profile : entry))
+    : [...profiles, profile];
+
+  writeStoredProfiles(next);
+  return { profiles: next, profile };
+}
+
+export function deletePortProfile(profiles: PortProfile[], id: string): PortProfile[] {
+  const next = profiles.filter((profile) => profile.builtin || profile.id !== id);
+  writeStoredProfiles(next);
+  return next;
+}
@@ -0,0 +1,161 @@
+export type PortProtocol = 'http' | 'https';
+
+export type PortDescriptor = {
+  port: number;
+  label: string;
+  protocol: PortProtocol;
+};
+
+export type PortExpressionErrorCode = 'invalid-port' | 'invalid-range' | 'invalid-protocol' | 'too-many-ports';
+
+export type PortExpressionError = {
+  token: string;
+  code: PortExpressionErrorCode;
+  limit?: number;
+};
+
+export type PortExpressionResult = {
+  descriptors: PortDescriptor[];
+  errors: PortExpressionError[];
+};
+
+export const MAX_PORTS_PER_EXPRESSION = 1024;
+
+const WELL_KNOWN_PORTS: Record<number, string> = {
+  21: 'FTP',
+  22: 'SSH',
+  23: 'Telnet',
+  25: 'SMTP',
+  53: 'DNS',
+  80: 'HTTP',
+  110: 'POP3',
+  139: 'NetBIOS',
+  143: 'IMAP',
+  443: 'HTTPS',
+  445: 'SMB',
+  515: 'LPD',
+  554: 'RTSP',
+  631: 'IPP',
+  1883: 'MQTT',
+  3000: 'Dev Server',
+  3389: 'RDP',
+  4200: 'Angular Dev',
+  5000: 'UPnP / NAS',
+  5001: 'NAS HTTPS',
+  5173: 'Vite Dev',
+  5900: 'VNC',
+  8000: 'HTTP Alt',
+  8008: 'HTTP Alt',
+  8080: 'HTTP Proxy',
+  8443: 'HTTPS Alt',
+  8888: 'HTTP Alt',
+  9100: 'JetDirect',
+  9443: 'HTTPS Alt'
+};
+
+const HTTPS_PORTS = new Set([443, 5001, 8443, 9443]);
+
+export const DEFAULT_PORTS: PortDescriptor[] = [
+  { port: 80, label: 'HTTP', protocol: 'http' },
+  { port: 443, label: 'HTTPS', protocol: 'https' },
+  { port: 5000, label: 'UPnP / NAS', protocol: 'http' },
+  { port: 8000, label: 'HTTP Alt', protocol: 'http' },
+  { port: 8080, label: 'HTTP Proxy', protocol: 'http' },
+  { port: 8443, label: 'HTTPS Alt', protocol: 'https' }
+];
+
+export function isValidPort(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 65535;
+}
+
+export function isPortDescriptor(value: unknown): value is PortDescriptor {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<PortDescriptor>;
+  return (
+    typeof candidate.port === 'number' &&
+    isValidPort(candidate.port) &&
+    typeof candidate.label === 'string' &&
+    (candidate.protocol === 'http' || candidate.protocol === 'https')
+  );
+}
+
+export function describePort(port: number, protocol?: PortProtocol): PortDescriptor {
+  return {
+    port,
+    label: WELL_KNOWN_PORTS[port] ?? `TCP ${port}`,
+    protocol: protocol ?? (HTTPS_PORTS.has(port) ? 'https' : 'http')
+  };
+}
+
+export function sortPorts(ports: PortDescriptor[]): PortDescriptor[] {
+  return [...ports].sort((a, b) => a.port - b.port);
+}
+
+export function mergePorts(current: PortDescriptor[], additions: PortDescriptor[]): PortDescriptor[] {
+  const merged = new Map<number, PortDescriptor>();
+  for (const descriptor of [...current, ...additions]) {
+    merged.set(descriptor.port, descriptor);
+  }
+  return sortPorts(Array.from(merged.values()));
+}
+
+function portError(token: string, code: PortExpressionErrorCode): PortExpressionError {
+  return { token, code };
+}
+
+export function parsePortExpression(expression: string): PortExpressionResult {
+  const tokens = expression
+    .split(/[\s,;]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+  const errors: PortExpressionError[] = [];
+  const collected = new Map<number, PortDescriptor>();
+
+  for (const token of tokens) {
+    const [range, protocolText, ...rest] = token.split('/');
+    const protocol = protocolText?.toLowerCase();
+
+    if (rest.length > 0 || (protocol !== undefined && protocol !== 'http' && protocol !== 'https')) {
+      errors.push(portError(token, 'invalid-protocol'));
+      continue;
+    }
+
+    const bounds = range.split('-');
+    if (bounds.length > 2 || bounds.some((bound) => !/^\d{1,5}$/.test(bound))) {
+      errors.push(portError(token, 'invalid-port'));
+      continue;
+    }
+
+    const first = Number(bounds[0]);
+    const last = Number(bounds[bounds.length - 1]);
+    if (!isValidPort(first) || !isValidPort(last)) {
+      errors.push(portError(token, 'invalid-port'));
+      continue;
+    }
+    if (first > last) {
+      errors.push(portError(token, 'invalid-range'));
+      continue;
+    }
+    if (collected.size + (last - first + 1) > MAX_PORTS_PER_EXPRESSION) {
+      errors.push({ ...portError(token, 'too-many-ports'), limit: MAX_PORTS_PER_EXPRESSION });
+      continue;
+    }
+
+    for (let port = first; port <= last; port += 1) {
+      collected.set(port, describePort(port, protocol as PortProtocol | undefined));
+    }
+  }
+
+  return { descriptors: sortPorts(Array.from(collected.values())), errors };
+}
+
+export function formatPortExpression(ports: PortDescriptor[]): string {
+  return sortPorts(ports)
+    .map((descriptor) => {
+      const fallback = describePort(descriptor.port).protocol;
+      return descriptor.protocol === fallback ? `${descriptor.port}` : `${descriptor.port}/${descriptor.protocol}`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { describePort } from './ports';
+import { createReport, exportCsv, exportJson, importReport, REPORT_VERSION, type ScanReport } from './resultsExport';
+import type { HostScanResult } from './scanTypes';
+
+const HOSTS: HostScanResult[] = [
+  {
+    ip: '192.168.1.10',
+    reachable: true,
+    completedAt: Date.parse('2026-01-01T10:00:05.000Z'),
+    identity: { hostname: 'printer.lan', vendor: 'HP' },
+    ports: [
+      {
+        port: 80,
+        label: 'HTTP',
+        protocol: 'http',
+        status: 'open',
+        confidence: 0.9,
+        latencyMs: 12.5,
+        evidence: [{ method: 'tcp', status: 'open', confidence: 0.9, latencyMs: 12.5 }],
+        fingerprint: { http: { status: 200, title: 'Printer, "status"', server: 'HP-ChaiSOE' } }
+      }
+    ]
+  },
+  { ip: '192.168.1.11', reachable: false, completedAt: Date.parse('2026-01-01T10:00:06.000Z'), ports: [] }
+];
+
+function report(): ScanReport {
+  return createReport(
+    { targets: '192.168.1.10-11', ports: [describePort(80)], timeoutMs: 1500, backend: 'server' },
+    HOSTS,
+    Date.parse('2026-01-01T10:00:00.000Z'),
+    Date.parse('2026-01-01T10:00:06.000Z')
+  );
+}
+
+function withPort(patch: Record<string, unknown>): string {
+  const original = report();
+  const [host] = original.results;
+  return JSON.stringify({ ...original, results: [{ ...host, ports: [{ ...host.ports[0], ...patch }] }] });
+}
+
+function withHost(patch: Record<string, unknown>): string {
+  const original = report();
+  return JSON.stringify({ ...original, results: [{ ...original.results[0], ...patch }] });
+}
+
+function withConfig(patch: Record<string, unknown>): string {
+  const original = report();
+  return JSON.stringify({ ...original, config: { ...original.config, ...patch } });
+}
+
+function errorCode(text: string): string | null {
+  const result = importReport(text);
+  return result.ok ? null : result.code;
+}
+
+describe('importReport', () => {
+  it('reads back an exported JSON report', () => {
+    assert.deepEqual(importReport(exportJson(report())), { ok: true, report: report() });
+  });
+
+  it('reads back the hosts, ports and identities of an exported CSV', () => {
+    const result = importReport(exportCsv(report()));
+    assert.equal(result.ok, true);
+    if (result.ok) {
+      // The CSV importer leaves absent fingerprint parts as undefined keys, which JSON drops.
+      assert.deepEqual(JSON.parse(JSON.stringify(result.report.results)), HOSTS);
+    }
+  });
+
+  it('refuses other report versions', () => {
+    const text = JSON.stringify({ ...report(), version: REPORT_VERSION + 1 });
+    assert.deepEqual(importReport(text), {
+      ok: false,
+      code: 'unsupported-version',
+      detail: String(REPORT_VERSION + 1)
+    });
+  });
+
+  it('refuses a malformed scan configuration', () => {
+    for (const patch of [
+      { targets: 42 },
+      { ports: 'http' },
+      { ports: [{ port: 80 }] },
+      { timeoutMs: '1500' },
+      { backend: 'nmap' },
+      { speed: 'warp' }
+    ]) {
+      assert.equal(errorCode(withConfig(patch)), 'invalid-config', JSON.stringify(patch));
+    }
+  });
+
+  it('refuses malformed hosts', () => {
+    for (const patch of [{ ip: 'printer.lan' }, { reachable: 'yes' }, { completedAt: null }, { identity: { mac: 1 } }]) {
+      assert.equal(errorCode(withHost(patch)), 'invalid-host-entry', JSON.stringify(patch));
+    }
+  });
+
+  it('refuses malformed port entries, evidence and fingerprints', () => {
+    for (const patch of [
+      { port: 70000 },
+      { label: undefined },
+      { status: 'up' },
+      { confidence: 1.5 },
+      { confidence: '0.9' },
+      { evidence: null },
+      { evidence: [null] },
+      { evidence: [{ method: 'ping', status: 'open', confidence: 1, latencyMs: 1 }] },
+      { fingerprint: { http: { status: '200', title: null, server: null } } },
+      { fingerprint: { banner: 7 } }
+    ]) {
+      assert.equal(errorCode(withPort(patch)), 'invalid-port-entry', JSON.stringify(patch));
+    }
+  });
+
+  it('derives reachable from the open ports', () => {
+    const result = importReport(withHost({ reachable: false }));
+    assert.equal(result.ok && result.report.results[0].reachable, true);
+  });
+});
@@ -0,0 +1,726 @@
+import { isValidIP, isValidIPv6 } from './ipRange';
+import { describePort, isPortDescriptor, isValidPort, sortPorts, type PortDescriptor, type PortProtocol } from './ports';
+import { SCAN_SPEED_PRESETS } from './scanTuning';
+import type {
+  HostIdentity,
+  HostScanResult,
+  PortScanResult,
+  PortStatus,
+  ProbeEvidence,
+  ProbeMethod,
+  ScanBackend,
+  ScanConfig,
+  ServiceFingerprint
+} from './scanTypes';
+
+export const REPORT_FORMAT = 'lan-scanner-report';
+export const REPORT_VERSION = 1;
+
+export type ScanReport = {
+  format: typeof REPORT_FORMAT;
+  version: typeof REPORT_VERSION;
+  config: ScanConfig;
+  startedAt: number;
+  finishedAt: number;
+  results: HostScanResult[];
+};
+
+export type ExportFormat = 'json' | 'csv' | 'xml';
+
+export type ImportErrorCode =
+  | 'not-a-report'
+  | 'unsupported-version'
+  | 'invalid-config'
+  | 'invalid-host-entry'
+  | 'invalid-port-entry'
+  | 'unknown-csv-header'
+  | 'missing-nmaprun'
+  | 'unreadable';
+
+export type ImportResult =
+  | { ok: true; report: ScanReport }
+  | { ok: false; code: ImportErrorCode; detail?: string };
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mime: string; label: string }> = {
+  json: { extension: 'json', mime: 'application/json', label: 'JSON' },
+  csv: { extension: 'csv', mime: 'text/csv', label: 'CSV' },
+  xml: { extension: 'xml', mime: 'application/xml', label: 'Nmap XML' }
+};
+
+const CSV_COLUMNS = [
+  'ip',
+  'reachable',
+  'completed_at',
+  'port',
+  'label',
+  'protocol',
+  'status',
+  'confidence',
+  'latency_ms',
+  'method',
+  'http_status',
+  'http_title',
+  'http_server',
+  'tls_subject',
+  'tls_issuer',
+  'tls_valid_to',
+  'banner',
+  'hostname',
+  'mdns_name',
+  'netbios_name',
+  'mac',
+  'vendor'
+] as const;
+
+const NMAP_STATES: Record<PortStatus, string> = {
+  open: 'open',
+  closed: 'closed',
+  filtered: 'filtered',
+  unknown: 'open|filtered'
+};
+
+const NMAP_REASONS: Record<PortStatus, string> = {
+  open: 'syn-ack',
+  closed: 'conn-refused',
+  filtered: 'no-response',
+  unknown: 'no-response'
+};
+
+export function createReport(
+  config: ScanConfig,
+  results: HostScanResult[],
+  startedAt: number,
+  finishedAt: number
+): ScanReport {
+  return { format: REPORT_FORMAT, version: REPORT_VERSION, config, startedAt, finishedAt, results };
+}
+
+export function reportFilename(report: ScanReport, format: ExportFormat): string {
+  const stamp = new Date(report.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `lan-scan-${stamp}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function exportJson(report: ScanReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function identityCells(identity: HostIdentity | undefined): (string | undefined)[] {
+  return [identity?.hostname, identity?.mdnsName, identity?.netbiosName, identity?.mac, identity?.vendor];
+}
+
+export function exportCsv(report: ScanReport): string {
+  const rows = report.results.flatMap((host) => {
+    if (host.ports.length === 0) {
+      const identity = identityCells(host.identity);
+      const blanks = Array.from<null>({ length: CSV_COLUMNS.length - 3 - identity.length }).fill(null);
+      return [
+        [host.ip, host.reachable, new Date(host.completedAt).toISOString(), ...blanks, ...identity]
+          .map(csvCell)
+          .join(',')
+      ];
+    }
+    return host.ports.map((port) =>
+      [
+        host.ip,
+        host.reachable,
+        new Date(host.completedAt).toISOString(),
+        port.port,
+        port.label,
+        port.protocol,
+        port.status,
+        port.confidence,
+        port.latencyMs === null ? null : Math.round(port.latencyMs * 10) / 10,
+        port.evidence.map((entry) => `${entry.method}:${entry.status}`).join('+'),
+        port.fingerprint?.http?.status,
+        port.fingerprint?.http?.title,
+        port.fingerprint?.http?.server,
+        port.fingerprint?.tls?.subject,
+        port.fingerprint?.tls?.issuer,
+        port.fingerprint?.tls?.validTo,
+        port.fingerprint?.banner,
+        ...identityCells(host.identity)
+      ]
+        .map(csvCell)
+        .join(',')
+    );
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlAttributes(attributes: Record<string, string | number | null | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => ` ${key}="${xmlEscape(String(value))}"`)
+    .join('');
+}
+
+function nmapPort(port: PortScanResult): string {
+  const fingerprint = port.fingerprint;
+  const service = xmlAttributes({
+    name: port.protocol,
+    product: fingerprint?.http?.server,
+    extrainfo: fingerprint?.http?.title,
+    tunnel: port.protocol === 'https' ? 'ssl' : undefined,
+    method: fingerprint ? 'probed' : 'table',
+    conf: Math.round(port.confidence * 10)
+  });
+  const banner = fingerprint?.banner
+    ? `<script id="banner"${xmlAttributes({ output: fingerprint.banner })}/>`
+    : '';
+  const certificate = fingerprint?.tls
+    ? `<script id="ssl-cert"${xmlAttributes({
+        output: `Subject: ${fingerprint.tls.subject ?? ''}; Issuer: ${fingerprint.tls.issuer ?? ''}; Not valid after: ${
+          fingerprint.tls.validTo ?? ''
+        }`
+      })}/>`
+    : '';
+
+  return [
+    `<port${xmlAttributes({ protocol: 'tcp', portid: port.port })}>`,
+    `<state${xmlAttributes({ state: NMAP_STATES[port.status], reason: NMAP_REASONS[port.status], reason_ttl: 0 })}/>`,
+    `<service${service}/>`,
+    banner,
+    certificate,
+    '</port>'
+  ].join('');
+}
+
+function nmapHostnames(identity: HostIdentity | undefined): string {
+  const names = [
+    identity?.hostname ? `<hostname${xmlAttributes({ name: identity.hostname, type: 'PTR' })}/>` : '',
+    identity?.mdnsName ? `<hostname${xmlAttributes({ name: identity.mdnsName, type: 'user' })}/>` : ''
+  ].join('');
+  return names ? `<hostnames>${names}</hostnames>` : '';
+}
+
+export function exportNmapXml(report: ScanReport): string {
+  const start = Math.floor(report.startedAt / 1000);
+  const end = Math.floor(report.finishedAt / 1000);
+  const up = report.results.filter((host) => host.reachable).length;
+  const portList = report.config.ports.map((port) => port.port).join(',');
+
+  const hosts = report.results.map((host) =>
+    [
+      `<host${xmlAttributes({ starttime: start, endtime: Math.floor(host.completedAt / 1000) })}>`,
+      `<status${xmlAttributes({ state: host.reachable ? 'up' : 'down', reason: host.reachable ? 'syn-ack' : 'no-response' })}/>`,
+      `<address${xmlAttributes({ addr: host.ip, addrtype: isValidIPv6(host.ip) ? 'ipv6' : 'ipv4' })}/>`,
+      host.identity?.mac
+        ? `<address${xmlAttributes({ addr: host.identity.mac, addrtype: 'mac', vendor: host.identity.vendor })}/>`
+        : '',
+      nmapHostnames(host.identity),
+      `<ports>${host.ports.map(nmapPort).join('')}</ports>`,
+      host.identity?.netbiosName
+        ? `<hostscript><script id="nbstat"${xmlAttributes({ output: `NetBIOS name: ${host.identity.netbiosName}` })}/></hostscript>`
+        : '',
+      '</host>'
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE nmaprun>',
+    `<nmaprun${xmlAttributes({
+      scanner: 'lan-scanner-pro',
+      args: `${report.config.targets} -p ${portList}`,
+      start,
+      startstr: new Date(report.startedAt).toString(),
+      version: String(REPORT_VERSION),
+      xmloutputversion: '1.05'
+    })}>`,
+    `<scaninfo${xmlAttributes({
+      type: 'connect',
+      protocol: 'tcp',
+      numservices: report.config.ports.length,
+      services: portList
+    })}/>`,
+    ...hosts,
+    '<runstats>',
+    `<finished${xmlAttributes({
+      time: end,
+      timestr: new Date(report.finishedAt).toString(),
+      elapsed: Math.max(0, end - start),
+      exit: 'success'
+    })}/>`,
+    `<hosts${xmlAttributes({ up, down: report.results.length - up, total: report.results.length })}/>`,
+    '</runstats>',
+    '</nmaprun>',
+    ''
+  ].join('\n');
+}
+
+export function exportReport(report: ScanReport, format: ExportFormat): string {
+  if (format === 'csv') {
+    return exportCsv(report);
+  }
+  if (format === 'xml') {
+    return exportNmapXml(report);
+  }
+  return exportJson(report);
+}
+
+function isStatus(value: unknown): value is PortStatus {
+  return value === 'open' || value === 'closed' || value === 'filtered' || value === 'unknown';
+}
+
+function isProtocol(value: unknown): value is PortProtocol {
+  return value === 'http' || value === 'https';
+}
+
+function isMethod(value: unknown): value is ProbeMethod {
+  return (
+    value === 'fetch' ||
+    value === 'fetch-head' ||
+    value === 'image' ||
+    value === 'websocket' ||
+    value === 'tcp' ||
+    value === 'simulated'
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isConfidence(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isLatency(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+function isNullableText(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function isBackend(value: unknown): value is ScanBackend {
+  return value === 'browser' || value === 'server' || value === 'simulated';
+}
+
+function isConfig(value: unknown): value is ScanConfig {
+  return (
+    isRecord(value) &&
+    typeof value.targets === 'string' &&
+    Array.isArray(value.ports) &&
+    value.ports.every(isPortDescriptor) &&
+    typeof value.timeoutMs === 'number' &&
+    Number.isFinite(value.timeoutMs) &&
+    value.timeoutMs >= 0 &&
+    isBackend(value.backend) &&
+    (value.speed === undefined || (typeof value.speed === 'string' && value.speed in SCAN_SPEED_PRESETS)) &&
+    (value.retryTimeouts === undefined || typeof value.retryTimeouts === 'boolean')
+  );
+}
+
+function isEvidence(value: unknown): value is ProbeEvidence {
+  return (
+    isRecord(value) &&
+    isMethod(value.method) &&
+    isStatus(value.status) &&
+    isConfidence(value.confidence) &&
+    isLatency(value.latencyMs)
+  );
+}
+
+function isFingerprint(value: unknown): value is ServiceFingerprint {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const { http, tls, banner } = value;
+  return (
+    (http === undefined ||
+      (isRecord(http) && typeof http.status === 'number' && isNullableText(http.title) && isNullableText(http.server))) &&
+    (tls === undefined ||
+      (isRecord(tls) && isNullableText(tls.subject) && isNullableText(tls.issuer) && isNullableText(tls.validTo))) &&
+    (banner === undefined || typeof banner === 'string')
+  );
+}
+
+function isIdentity(value: unknown): value is HostIdentity {
+  return isRecord(value) && Object.values(value).every((field) => typeof field === 'string');
+}
+
+function isPortEntry(value: unknown): value is PortScanResult {
+  return (
+    isRecord(value) &&
+    isStatus(value.status) &&
+    isConfidence(value.confidence) &&
+    isLatency(value.latencyMs) &&
+    Array.isArray(value.evidence) &&
+    value.evidence.every(isEvidence) &&
+    (value.fingerprint === undefined || isFingerprint(value.fingerprint)) &&
+    isPortDescriptor(value)
+  );
+}
+
+function isHostEntry(value: unknown): value is HostScanResult {
+  return (
+    isRecord(value) &&
+    typeof value.ip === 'string' &&
+    isValidIP(value.ip) &&
+    typeof value.reachable === 'boolean' &&
+    typeof value.completedAt === 'number' &&
+    Number.isFinite(value.completedAt) &&
+    Array.isArray(value.ports) &&
+    (value.identity === undefined || isIdentity(value.identity))
+  );
+}
+
+function parseEvidence(cell: string, fallback: Omit<ProbeEvidence, 'method'>): ProbeEvidence[] {
+  const evidence = cell.split('+').flatMap((part): ProbeEvidence[] => {
+    const [method, status] = part.split(':');
+    return isMethod(method) ? [{ ...fallback, method, status: isStatus(status) ? status : fallback.status }] : [];
+  });
+  return evidence.length > 0 ? evidence : [{ ...fallback, method: 'tcp' }];
+}
+
+function finalizeHosts(hosts: Map<string, HostScanResult>): HostScanResult[] {
+  return Array.from(hosts.values()).map((host) => ({
+    ...host,
+    ports: [...host.ports].sort((a, b) => a.port - b.port),
+    reachable: host.ports.some((port) => port.status === 'open')
+  }));
+}
+
+function inferBackend(results: HostScanResult[]): ScanBackend {
+  const methods = new Set(
+    results.flatMap((host) => host.ports.flatMap((port) => port.evidence.map((entry) => entry.method)))
+  );
+  if (methods.has('simulated')) {
+    return 'simulated';
+  }
+  return methods.has('tcp') ? 'server' : 'browser';
+}
+
+function inferConfig(results: HostScanResult[], targets: string): ScanConfig {
+  const ports = new Map<number, PortDescriptor>();
+  results.forEach((host) =>
+    host.ports.forEach((port) => ports.set(port.port, { port: port.port, label: port.label, protocol: port.protocol }))
+  );
+  return {
+    targets,
+    ports: sortPorts(Array.from(ports.values())),
+    timeoutMs: 0,
+    backend: inferBackend(results)
+  };
+}
+
+function compactIdentity(identity: Record<keyof HostIdentity, string | null | undefined>): HostIdentity | undefined {
+  const entries = Object.entries(identity).filter((entry): entry is [string, string] => Boolean(entry[1]));
+  return entries.length > 0 ? (Object.fromEntries(entries) as HostIdentity) : undefined;
+}
+
+function importError(code: ImportErrorCode, detail?: string): ImportResult {
+  return { ok: false, code, detail };
+}
+
+function importJson(text: string): ImportResult {
+  const parsed = JSON.parse(text) as Partial<Record<keyof ScanReport, unknown>>;
+  if (parsed.format !== REPORT_FORMAT || !Array.isArray(parsed.results) || !isRecord(parsed.config)) {
+    return importError('not-a-report');
+  }
+  if (parsed.version !== REPORT_VERSION) {
+    const version = String(parsed.version);
+    return importError('unsupported-version', version);
+  }
+  if (!isConfig(parsed.config)) {
+    return importError('invalid-config');
+  }
+
+  const hosts = new Map<string, HostScanResult>();
+  for (const [index, host] of parsed.results.entries()) {
+    if (!isHostEntry(host)) {
+      const entry = `#${index + 1}`;
+      return importError('invalid-host-entry', entry);
+    }
+    const portIndex = host.ports.findIndex((port) => !isPortEntry(port));
+    if (portIndex >= 0) {
+      const entry = `${host.ip}, #${portIndex + 1}`;
+      return importError('invalid-port-entry', entry);
+    }
+    hosts.set(host.ip, host);
+  }
+
+  const now = Date.now();
+  const startedAt = typeof parsed.startedAt === 'number' ? parsed.startedAt : now;
+  const finishedAt = typeof parsed.finishedAt === 'number' ? parsed.finishedAt : startedAt;
+  return { ok: true, report: createReport(parsed.config, finalizeHosts(hosts), startedAt, finishedAt) };
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if ((char === '\n' || char === '\r') && !quoted) {
+      if (current) {
+        records.push(current);
+      }
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current) {
+    records.push(current);
+  }
+  return records;
+}
+
+function importCsv(text: string): ImportResult {
+  const [header, ...records] = splitCsvRecords(text);
+  const columns = parseCsvLine(header ?? '');
+  const isKnownHeader = CSV_COLUMNS.every((column, index) => columns[index] === column);
+  if (!isKnownHeader) {
+    return importError('unknown-csv-header');
+  }
+
+  const hosts = new Map<string, HostScanResult>();
+  for (const record of records) {
+    const cells = parseCsvLine(record);
+    const row = Object.fromEntries(CSV_COLUMNS.map((column, index) => [column, cells[index] ?? ''])) as Record<
+      (typeof CSV_COLUMNS)[number],
+      string
+    >;
+    if (!isValidIP(row.ip)) {
+      continue;
+    }
+
+    const host = hosts.get(row.ip) ?? {
+      ip: row.ip,
+      ports: [],
+      reachable: false,
+      completedAt: Date.parse(row.completed_at) || Date.now()
+    };
+    hosts.set(row.ip, host);
+    if (!host.identity) {
+      const identity = compactIdentity({
+        hostname: row.hostname,
+        mdnsName: row.mdns_name,
+        netbiosName: row.netbios_name,
+        mac: row.mac,
+        vendor: row.vendor
+      });
+      if (identity) {
+        host.identity = identity;
+      }
+    }
+
+    const port = Number(row.port);
+    if (!row.port || !isValidPort(port)) {
+      continue;
+    }
+
+    const http = row.http_status
+      ? { status: Number(row.http_status), title: row.http_title || null, server: row.http_server || null }
+      : undefined;
+    const tls =
+      row.tls_subject || row.tls_issuer || row.tls_valid_to
+        ? { subject: row.tls_subject || null, issuer: row.tls_issuer || null, validTo: row.tls_valid_to || null }
+        : undefined;
+    const fingerprint = http || tls || row.banner ? { http, tls, banner: row.banner || undefined } : undefined;
+
+    const status = isStatus(row.status) ? row.status : 'unknown';
+    const confidence = Number(row.confidence) || 0;
+    const latencyMs = row.latency_ms ? Number(row.latency_ms) : null;
+    host.ports.push({
+      port,
+      label: row.label || describePort(port).label,
+      protocol: isProtocol(row.protocol) ? row.protocol : describePort(port).protocol,
+      status,
+      confidence,
+      latencyMs,
+      evidence: parseEvidence(row.method, { status, confidence, latencyMs }),
+      ...(fingerprint ? { fingerprint } : {})
+    });
+  }
+
+  const results = finalizeHosts(hosts);
+  const times = results.map((host) => host.completedAt);
+  const startedAt = times.length > 0 ? Math.min(...times) : Date.now();
+  const finishedAt = times.length > 0 ? Math.max(...times) : startedAt;
+  return { ok: true, report: createReport(inferConfig(results, 'csv'), results, startedAt, finishedAt) };
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  if (!match) {
+    return null;
+  }
+  return match[1]
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function nmapStatus(state: string | null): PortStatus {
+  if (state === 'open' || state === 'closed' || state === 'filtered') {
+    return state;
+  }
+  if (state === 'closed|filtered') {
+    return 'filtered';
+  }
+  return 'unknown';
+}
+
+function importNmapXml(text: string): ImportResult {
+  const runTag = /<nmaprun\b[^>]*>/.exec(text)?.[0];
+  if (!runTag) {
+    return importError('missing-nmaprun');
+  }
+
+  const startedAt = Number(readAttribute(runTag, 'start') ?? 0) * 1000 || Date.now();
+  const finishedTag = /<finished\b[^>]*>/.exec(text)?.[0];
+  const finishedAt = finishedTag ? Number(readAttribute(finishedTag, 'time') ?? 0) * 1000 || startedAt : startedAt;
+  const hosts = new Map<string, HostScanResult>();
+
+  for (const [hostBlock] of Array.from(text.matchAll(/<host\b[\s\S]*?<\/host>/g))) {
+    const addressTag = Array.from(hostBlock.matchAll(/<address\b[^>]*>/g))
+      .map(([tag]) => tag)
+      .find((tag) => ['ipv4', 'ipv6'].includes(readAttribute(tag, 'addrtype') ?? ''));
+    const ip = addressTag ? readAttribute(addressTag, 'addr') : null;
+    if (!ip || !isValidIP(ip)) {
+      continue;
+    }
+
+    const endTime = Number(readAttribute(/<host\b[^>]*>/.exec(hostBlock)?.[0] ?? '', 'endtime') ?? 0) * 1000;
+    const host: HostScanResult = { ip, ports: [], reachable: false, completedAt: endTime || finishedAt };
+
+    const macTag = Array.from(hostBlock.matchAll(/<address\b[^>]*>/g))
+      .map(([tag]) => tag)
+      .find((tag) => readAttribute(tag, 'addrtype') === 'mac');
+    const hostnameTags = Array.from(hostBlock.matchAll(/<hostname\b[^>]*>/g)).map(([tag]) => tag);
+    const nbstatTag = /<script\b[^>]*id="nbstat"[^>]*>/.exec(hostBlock)?.[0];
+    const nbstat = nbstatTag ? /NetBIOS name:\s*([^,\s]+)/.exec(readAttribute(nbstatTag, 'output') ?? '') : null;
+    const identity = compactIdentity({
+      hostname: readAttribute(hostnameTags.find((tag) => readAttribute(tag, 'type') === 'PTR') ?? '', 'name'),
+      mdnsName: readAttribute(hostnameTags.find((tag) => readAttribute(tag, 'type') === 'user') ?? '', 'name'),
+      netbiosName: nbstat?.[1],
+      mac: macTag ? readAttribute(macTag, 'addr') : null,
+      vendor: macTag ? readAttribute(macTag, 'vendor') : null
+    });
+    if (identity) {
+      host.identity = identity;
+    }
+
+    for (const [portBlock] of Array.from(hostBlock.matchAll(/<port\b[\s\S]*?<\/port>/g))) {
+      const portTag = /<port\b[^>]*>/.exec(portBlock)?.[0] ?? '';
+      const port = Number(readAttribute(portTag, 'portid'));
+      if (readAttribute(portTag, 'protocol') !== 'tcp' || !isValidPort(port)) {
+        continue;
+      }
+
+      const stateTag = /<state\b[^>]*>/.exec(portBlock)?.[0] ?? '';
+      const serviceTag = /<service\b[^>]*>/.exec(portBlock)?.[0] ?? '';
+      const serviceName = readAttribute(serviceTag, 'name');
+      const tunnel = readAttribute(serviceTag, 'tunnel');
+      const product = readAttribute(serviceTag, 'product');
+      const extraInfo = readAttribute(serviceTag, 'extrainfo');
+      const bannerTag = /<script\b[^>]*id="banner"[^>]*>/.exec(portBlock)?.[0];
+      const banner = bannerTag ? readAttribute(bannerTag, 'output') : null;
+      const conf = Number(readAttribute(serviceTag, 'conf'));
+      const protocol: PortProtocol =
+        serviceName === 'https' || tunnel === 'ssl' ? 'https' : serviceName === 'http' ? 'http' : describePort(port).protocol;
+
+      const status = nmapStatus(readAttribute(stateTag, 'state'));
+      const confidence = Number.isFinite(conf) && conf > 0 ? conf / 10 : 0.9;
+      host.ports.push({
+        port,
+        label: describePort(port).label,
+        protocol,
+        status,
+        confidence,
+        latencyMs: null,
+        evidence: [{ method: 'tcp', status, confidence, latencyMs: null }],
+        ...(product || extraInfo || banner
+          ? {
+              fingerprint: {
+                ...(product || extraInfo ? { http: { status: 0, title: extraInfo, server: product } } : {}),
+                ...(banner ? { banner } : {})
+              }
+            }
+          : {})
+      });
+    }
+
+    hosts.set(ip, host);
+  }
+
+  const results = finalizeHosts(hosts);
+  const targets = (readAttribute(runTag, 'args') ?? 'nmap').replace(/\s+-p\s+\S+$/, '');
+  return { ok: true, report: createReport(inferConfig(results, targets), results, startedAt, finishedAt) };
+}
+
+export function importReport(text: string): ImportResult {
+  const trimmed = text.trim();
+
+  try {
+    if (trimmed.startsWith('{')) {
+      return importJson(trimmed);
+    }
+    if (trimmed.startsWith('<')) {
+      return importNmapXml(trimmed);
+    }
+    return importCsv(trimmed);
+  } catch (error) {
+    if (error instanceof Error) {
+      return importError('unreadable', error.message);
+    }
+    return importError('unreadable');
+  }
+}
@@ -0,0 +1,172 @@
+import type { DeviceClassification, DeviceType } from './deviceClassification';
+import type { InventoryMatch } from './deviceInventory';
+import { fastestOpenLatency, hostDisplayName } from './hostResults';
+import { ipSortKey } from './ipRange';
+import type { HostScanResult, PortScanResult } from './scanTypes';
+
+export type ResultsSortKey = 'ip' | 'latency' | 'openPorts';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ResultsSort = { key: ResultsSortKey; direction: SortDirection };
+
+export type ResultsFilter = {
+  query: string;
+  openPort: number | null;
+  unknownOnly: boolean;
+  reachableOnly: boolean;
+  deviceType: DeviceType | null;
+};
+
+export type ResultRow = {
+  host: HostScanResult;
+  match: InventoryMatch | null;
+  classification: DeviceClassification | null;
+  ipKey: string;
+  openPorts: number;
+  latencyMs: number | null;
+  portsByNumber: Map<number, PortScanResult>;
+  searchText: string;
+};
+
+export const DEFAULT_RESULTS_SORT: ResultsSort = { key: 'ip', direction: 'asc' };
+
+export const EMPTY_RESULTS_FILTER: ResultsFilter = {
+  query: '',
+  openPort: null,
+  unknownOnly: false,
+  reachableOnly: false,
+  deviceType: null
+};
+
+export function buildResultRow(
+  host: HostScanResult,
+  match: InventoryMatch | null,
+  classification: DeviceClassification | null
+): ResultRow {
+  const portsByNumber = new Map(host.ports.map((port) => [port.port, port] as const));
+  const open = host.ports.filter((port) => port.status === 'open');
+  const searchText = [
+    host.ip,
+    hostDisplayName(host.identity),
+    host.identity?.mac,
+    host.identity?.vendor,
+    match?.device.name,
+    ...(match?.device.tags ?? []),
+    ...open.map((port) => `${port.port} ${port.label}`),
+    ...open.map((port) => port.fingerprint?.http?.title ?? port.fingerprint?.banner)
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return {
+    host,
+    match,
+    classification,
+    ipKey: ipSortKey(host.ip),
+    openPorts: open.length,
+    latencyMs: fastestOpenLatency(host),
+    portsByNumber,
+    searchText
+  };
+}
+
+export function isUnknownRow(row: ResultRow): boolean {
+  return row.host.reachable && row.match === null;
+}
+
+export function filterRows(rows: ResultRow[], filter: ResultsFilter): ResultRow[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return rows.filter((row) => {
+    if (filter.reachableOnly && !row.host.reachable) {
+      return false;
+    }
+    if (filter.unknownOnly && !isUnknownRow(row)) {
+      return false;
+    }
+    if (filter.deviceType !== null && row.classification?.type !== filter.deviceType) {
+      return false;
+    }
+    if (filter.openPort !== null && row.portsByNumber.get(filter.openPort)?.status !== 'open') {
+      return false;
+    }
+    return terms.every((term) => row.searchText.includes(term));
+  });
+}
+
+function compareNullable(a: number | null, b: number | null): number {
+  if (a === null && b === null) {
+    return 0;
+  }
+  if (a === null) {
+    return 1;
+  }
+  if (b === null) {
+    return -1;
+  }
+  return a - b;
+}
+
+export function sortRows(rows: ResultRow[], sort: ResultsSort): ResultRow[] {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    let primary = 0;
+    if (sort.key === 'latency') {
+      // Hosts without a measured latency stay at the bottom in both directions.
+      primary =
+        a.latencyMs === null || b.latencyMs === null
+          ? compareNullable(a.latencyMs, b.latencyMs)
+          : (a.latencyMs - b.latencyMs) * factor;
+    } else if (sort.key === 'openPorts') {
+      primary = (a.openPorts - b.openPorts) * factor;
+    }
+    const byIp = a.ipKey < b.ipKey ? -1 : a.ipKey > b.ipKey ? 1 : 0;
+    return primary || byIp * (sort.key === 'ip' ? factor : 1);
+  });
+}
+
+export function toggleSort(current: ResultsSort, key: ResultsSortKey): ResultsSort {
+  if (current.key === key) {
+    return { key, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  }
+  return { key, direction: key === 'ip' || key === 'latency' ? 'asc' : 'desc' };
+}
+
+export function createBatcher<T>(
+  flush: (batch: T[]) => void,
+  intervalMs = 200
+): { push: (item: T) => void; flush: () => void; cancel: () => void } {
+  let pending: T[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const drain = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending.length === 0) {
+      return;
+    }
+    const batch = pending;
+    pending = [];
+    flush(batch);
+  };
+
+  return {
+    push(item) {
+      pending.push(item);
+      if (timer === null) {
+        timer = setTimeout(drain, intervalMs);
+      }
+    },
+    flush: drain,
+    cancel() {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending = [];
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { PortDescriptor } from './ports';
+import { diffScans, type ScanRun } from './scanDiff';
+import type { HostScanResult, PortStatus } from './scanTypes';
+
+function descriptors(...ports: number[]): PortDescriptor[] {
+  return ports.map((port) => ({ port, label: `tcp/${port}`, protocol: 'http' }));
+}
+
+function host(ip: string, ports: Record<number, PortStatus>): HostScanResult {
+  return {
+    ip,
+    reachable: true,
+    completedAt: 0,
+    ports: Object.entries(ports).map(([port, status]) => ({
+      port: Number(port),
+      label: `tcp/${port}`,
+      protocol: 'http',
+      status,
+      confidence: 1,
+      latencyMs: status === 'open' ? 5 : null,
+      evidence: []
+    }))
+  };
+}
+
+function run(targets: string, ports: number[], results: HostScanResult[]): ScanRun {
+  return { config: { targets, ports: descriptors(...ports) }, results };
+}
+
+describe('diffScans', () => {
+  it('reports hosts and ports that changed between comparable runs', () => {
+    const diff = diffScans(
+      run('10.0.0.0/24', [80, 443], [host('10.0.0.5', { 80: 'open', 443: 'closed' }), host('10.0.0.9', { 80: 'open' })]),
+      run('10.0.0.0/24', [80, 443], [host('10.0.0.5', { 80: 'closed', 443: 'open' }), host('10.0.0.7', { 80: 'open' })])
+    );
+    assert.deepEqual(diff.newHosts.map((entry) => entry.ip), ['10.0.0.7']);
+    assert.deepEqual(diff.missingHosts.map((entry) => entry.ip), ['10.0.0.9']);
+    assert.deepEqual(
+      diff.portChanges.map(({ port, change }) => [port, change]),
+      [
+        [80, 'closed'],
+        [443, 'opened']
+      ]
+    );
+  });
+
+  it('ignores ports that only one of the runs probed', () => {
+    const diff = diffScans(
+      run('10.0.0.5', [80, 443], [host('10.0.0.5', { 80: 'open', 443: 'open' })]),
+      run('10.0.0.5', [80, 22], [host('10.0.0.5', { 80: 'open', 22: 'open' })])
+    );
+    assert.deepEqual(diff.portChanges, []);
+  });
+
+  it('ignores hosts outside the other run’s targets', () => {
+    const diff = diffScans(
+      run('10.0.0.0/24', [80], [host('10.0.0.9', { 80: 'open' })]),
+      run('10.0.0.1-8 10.1.0.1 !10.0.0.4', [80], [host('10.1.0.1', { 80: 'open' })])
+    );
+    assert.deepEqual(diff.newHosts, []);
+    assert.deepEqual(diff.missingHosts, []);
+  });
+});
@@ -0,0 +1,111 @@
+import { compareHostResults } from './hostResults';
+import {
+  boundsContain,
+  compareIps,
+  parseAddress,
+  splitTargetExpression,
+  targetBounds,
+  type AddressBounds
+} from './ipRange';
+import { isOpen } from './portClassification';
+import type { HostScanResult, PortStatus, ScanConfig } from './scanTypes';
+
+export type PortChange = {
+  ip: string;
+  port: number;
+  label: string;
+  change: 'opened' | 'closed';
+  before: PortStatus | null;
+  after: PortStatus | null;
+};
+
+export type ScanDiff = {
+  newHosts: HostScanResult[];
+  missingHosts: HostScanResult[];
+  portChanges: PortChange[];
+};
+
+// A finished scan as far as diffing is concerned; ScanReport satisfies it.
+export type ScanRun = {
+  config: Pick<ScanConfig, 'targets' | 'ports'>;
+  results: HostScanResult[];
+};
+
+// Tells whether a run targeted an address, so hosts outside the other run's targets are not reported as changes.
+function targetedBy(run: ScanRun): (ip: string) => boolean {
+  const included: AddressBounds[] = [];
+  const excluded: AddressBounds[] = [];
+  splitTargetExpression(run.config.targets).forEach((raw) => {
+    const isExclusion = raw.startsWith('!');
+    const bounds = targetBounds(isExclusion ? raw.slice(1) : raw);
+    if (bounds) {
+      (isExclusion ? excluded : included).push(bounds);
+    }
+  });
+  if (included.length === 0) {
+    // Imported reports can carry free-form targets; fall back to the hosts the run actually covered.
+    const covered = new Set(run.results.map((host) => host.ip));
+    return (ip) => covered.has(ip);
+  }
+  return (ip) => {
+    const address = parseAddress(ip);
+    return address !== null && boundsContain(included, address) && !boundsContain(excluded, address);
+  };
+}
+
+function reachableByIp(results: HostScanResult[]): Map<string, HostScanResult> {
+  return new Map(results.filter((host) => host.reachable).map((host) => [host.ip, host]));
+}
+
+export function diffScans(before: ScanRun, after: ScanRun): ScanDiff {
+  const previous = reachableByIp(before.results);
+  const current = reachableByIp(after.results);
+  const targetedBefore = targetedBy(before);
+  const targetedAfter = targetedBy(after);
+  // A port only one of the runs probed says nothing about whether it changed.
+  const afterPorts = new Set(after.config.ports.map((descriptor) => descriptor.port));
+  const sharedPorts = Array.from(
+    new Set(before.config.ports.map((descriptor) => descriptor.port).filter((port) => afterPorts.has(port)))
+  );
+
+  const newHosts = Array.from(current.values()).filter((host) => !previous.has(host.ip) && targetedBefore(host.ip));
+  const missingHosts = Array.from(previous.values()).filter((host) => !current.has(host.ip) && targetedAfter(host.ip));
+  const portChanges: PortChange[] = [];
+
+  current.forEach((host, ip) => {
+    const earlier = previous.get(ip);
+    if (!earlier) {
+      return;
+    }
+
+    sharedPorts.forEach((port) => {
+      const was = earlier.ports.find((entry) => entry.port === port);
+      const now = host.ports.find((entry) => entry.port === port);
+      const wasOpen = was ? isOpen(was.status) : false;
+      const nowOpen = now ? isOpen(now.status) : false;
+      if (wasOpen === nowOpen) {
+        return;
+      }
+      portChanges.push({
+        ip,
+        port,
+        label: (now ?? was)?.label ?? String(port),
+        change: nowOpen ? 'opened' : 'closed',
+        before: was?.status ?? null,
+        after: now?.status ?? null
+      });
+    });
+  });
+
+  return {
+    newHosts: newHosts.sort(compareHostResults),
+    missingHosts: missingHosts.sort(compareHostResults),
+    portChanges: portChanges.sort(
+      (a, b) => compareIps(a.ip, b.ip) || a.port - b.port
+    )
+  };
+}
+
+export function isEmptyDiff(diff: ScanDiff): boolean {
+  return diff.newHosts.length === 0 && diff.missingHosts.length === 0 && diff.portChanges.length === 0;
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { describePort } from './ports';
+import { ScanEngine } from './scanEngine';
+import { SCAN_SPEED_PRESETS } from './scanTuning';
+import type { PortScanResult, PortStatus, Prober } from './scanTypes';
+
+// Answers every `answerEvery`-th probe right away; the rest time out without a response.
+function lossyProber(answerEvery: number): Prober {
+  let count = 0;
+  return {
+    probe: async (_ip, descriptor) => {
+      count += 1;
+      const answered = count % answerEvery === 0;
+      const status: PortStatus = answered ? 'closed' : 'filtered';
+      const latencyMs = answered ? 2 : null;
+      const result: PortScanResult = {
+        ...descriptor,
+        status,
+        confidence: 0.9,
+        latencyMs,
+        evidence: [{ method: 'tcp', status, confidence: 0.9, latencyMs }]
+      };
+      return result;
+    }
+  };
+}
+
+async function concurrencyChanges(prober: Prober): Promise<number[]> {
+  const hosts = Array.from({ length: 96 }, (_, index) => `10.0.0.${index + 1}`);
+  const engine = new ScanEngine({
+    hosts,
+    ports: [describePort(80)],
+    timeoutMs: 1000,
+    tuning: { ...SCAN_SPEED_PRESETS.normal, retries: 0 },
+    prober
+  });
+  const changes: number[] = [];
+  engine.on('concurrency-changed', ({ concurrency }) => changes.push(concurrency));
+  await engine.start();
+  // The first event announces the starting concurrency.
+  return changes.slice(1);
+}
+
+describe('ScanEngine adaptive concurrency', () => {
+  it('backs off when most probes time out', async () => {
+    const changes = await concurrencyChanges(lossyProber(2));
+    assert.ok(changes.length > 0);
+    assert.ok(changes.every((value) => value < SCAN_SPEED_PRESETS.normal.initialConcurrency));
+    assert.equal(changes.at(-1), SCAN_SPEED_PRESETS.normal.minConcurrency);
+  });
+
+  it('grows while every probe answers', async () => {
+    const changes = await concurrencyChanges(lossyProber(1));
+    assert.ok(changes.length > 0);
+    assert.ok(changes.every((value) => value > SCAN_SPEED_PRESETS.normal.initialConcurrency));
+  });
+});
@@ -0,0 +1,348 @@
+import { BROWSER_PROBER } from './browserProbe';
+import { isOpen } from './portClassification';
+import type { PortDescriptor } from './ports';
+import type { ScanErrorDetail } from './scanErrors';
+import {
+  AdaptiveConcurrency,
+  ProbeRateLimiter,
+  SCAN_SPEED_PRESETS,
+  SubnetRttEstimator,
+  type ScanTuning
+} from './scanTuning';
+import type {
+  HostIdentity,
+  HostScanResult,
+  PortScanResult,
+  Prober,
+  ScanProgress,
+  TimingCalibration
+} from './scanTypes';
+
+export type ScanEngineOptions = {
+  hosts: string[];
+  ports: PortDescriptor[];
+  timeoutMs: number;
+  tuning?: ScanTuning;
+  prober?: Prober;
+  maxProbesPerSecond?: number;
+};
+
+export type ScanEvent =
+  | { type: 'calibrated'; calibration: TimingCalibration }
+  | { type: 'concurrency-changed'; concurrency: number }
+  | { type: 'host-started'; ip: string }
+  | { type: 'port-result'; ip: string; result: PortScanResult }
+  | { type: 'host-done'; result: HostScanResult; progress: ScanProgress }
+  | { type: 'finished'; results: HostScanResult[]; progress: ScanProgress; cancelled: boolean }
+  // A run that stopped on an error; its partial results are not a completed scan.
+  | { type: 'failed'; results: HostScanResult[]; progress: ScanProgress; error: ScanErrorDetail };
+
+export type ScanEventType = ScanEvent['type'];
+
+export type ScanEventListener<T extends ScanEventType> = (event: Extract<ScanEvent, { type: T }>) => void;
+
+export type ScanEngineState = 'idle' | 'running' | 'paused' | 'cancelled' | 'finished' | 'failed';
+
+export type ScanRunner = {
+  readonly status: ScanEngineState;
+  readonly supportsPause: boolean;
+  on<T extends ScanEventType>(type: T, listener: ScanEventListener<T>): () => void;
+  start(): Promise<HostScanResult[]>;
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+};
+
+export class ScanEventEmitter {
+  private readonly listeners = new Map<ScanEventType, Set<(event: ScanEvent) => void>>();
+
+  on<T extends ScanEventType>(type: T, listener: ScanEventListener<T>): () => void {
+    const bucket = this.listeners.get(type) ?? new Set();
+    const wrapped = listener as (event: ScanEvent) => void;
+    bucket.add(wrapped);
+    this.listeners.set(type, bucket);
+    return () => {
+      bucket.delete(wrapped);
+    };
+  }
+
+  protected emit(event: ScanEvent) {
+    this.listeners.get(event.type)?.forEach((listener) => listener(event));
+  }
+}
+
+export class ScanEngine extends ScanEventEmitter implements ScanRunner {
+  readonly supportsPause = true;
+  private readonly options: ScanEngineOptions;
+  private readonly prober: Prober;
+  private readonly tuning: ScanTuning;
+  private readonly concurrency: AdaptiveConcurrency;
+  private readonly rtt: SubnetRttEstimator;
+  private readonly rateLimiter: ProbeRateLimiter | null;
+  private readonly controller = new AbortController();
+  private readonly results: HostScanResult[] = [];
+  private progress: ScanProgress;
+  private calibration: TimingCalibration | null = null;
+  private state: ScanEngineState = 'idle';
+  private resumeGate: { promise: Promise<void>; release: () => void } | null = null;
+
+  constructor(options: ScanEngineOptions) {
+    super();
+    this.options = options;
+    this.prober = options.prober ?? BROWSER_PROBER;
+    this.tuning = options.tuning ?? SCAN_SPEED_PRESETS.normal;
+    this.concurrency = new AdaptiveConcurrency(this.tuning);
+    this.rtt = new SubnetRttEstimator(this.tuning.rttMultiplier);
+    this.rateLimiter = options.maxProbesPerSecond ? new ProbeRateLimiter(options.maxProbesPerSecond) : null;
+    this.progress = { total: options.hosts.length, completed: 0, reachable: 0 };
+  }
+
+  get status(): ScanEngineState {
+    return this.state;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get currentConcurrency(): number {
+    return this.concurrency.current;
+  }
+
+  async start(): Promise<HostScanResult[]> {
+    if (this.state !== 'idle') {
+      throw new Error(`ScanEngine cannot start from state "${this.state}".`);
+    }
+
+    this.state = 'running';
+    await this.runCalibration();
+
+    const queue = [...this.options.hosts];
+    const active = new Set<Promise<void>>();
+    this.emit({ type: 'concurrency-changed', concurrency: this.concurrency.current });
+
+    while (queue.length > 0) {
+      await this.waitWhilePaused();
+      while (active.size >= this.concurrency.current) {
+        await Promise.race(active);
+      }
+      if (this.signal.aborted) {
+        break;
+      }
+      if (this.resumeGate) {
+        continue;
+      }
+
+      const ip = queue.shift();
+      if (ip === undefined) {
+        break;
+      }
+
+      const task: Promise<void> = this.runHost(ip).finally(() => {
+        active.delete(task);
+      });
+      active.add(task);
+    }
+
+    await Promise.all(active);
+
+    const cancelled = this.signal.aborted;
+    this.state = cancelled ? 'cancelled' : 'finished';
+    this.emit({ type: 'finished', results: [...this.results], progress: this.progress, cancelled });
+    return [...this.results];
+  }
+
+  pause() {
+    if (this.state !== 'running') {
+      return;
+    }
+    let release = () => {};
+    const promise = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.resumeGate = { promise, release };
+    this.state = 'paused';
+  }
+
+  resume() {
+    if (this.state !== 'paused') {
+      return;
+    }
+    this.state = 'running';
+    this.releaseGate();
+  }
+
+  cancel() {
+    if (this.state === 'finished' || this.state === 'cancelled') {
+      return;
+    }
+    this.controller.abort();
+    this.releaseGate();
+    if (this.state === 'idle') {
+      this.state = 'cancelled';
+    }
+  }
+
+  private async runHost(ip: string) {
+    const result = await this.scanHost(ip);
+    if (!result) {
+      return;
+    }
+
+    this.results.push(result);
+    this.progress = {
+      total: this.progress.total,
+      completed: this.progress.completed + 1,
+      reachable: this.progress.reachable + (result.reachable ? 1 : 0)
+    };
+    this.emit({ type: 'host-done', result, progress: this.progress });
+  }
+
+  private async runCalibration() {
+    if (!this.prober.calibrate || this.signal.aborted) {
+      return;
+    }
+    try {
+      this.calibration = await this.prober.calibrate(this.options.timeoutMs, this.signal);
+      this.emit({ type: 'calibrated', calibration: this.calibration });
+    } catch {
+      this.calibration = null;
+    }
+  }
+
+  private releaseGate() {
+    const gate = this.resumeGate;
+    this.resumeGate = null;
+    gate?.release();
+  }
+
+  private async waitWhilePaused() {
+    while (this.resumeGate) {
+      await this.resumeGate.promise;
+    }
+  }
+
+  private async probeWithRetry(ip: string, descriptor: PortDescriptor): Promise<PortScanResult> {
+    let timeoutMs = this.rtt.timeoutFor(ip, this.options.timeoutMs);
+    let result = await this.probeOnce(ip, descriptor, timeoutMs);
+
+    for (let attempt = 0; attempt < this.tuning.retries && this.isSilent(result); attempt += 1) {
+      if (this.signal.aborted) {
+        return result;
+      }
+      timeoutMs = Math.min(this.options.timeoutMs * 2, Math.ceil(timeoutMs * 1.5));
+      result = await this.probeOnce(ip, descriptor, timeoutMs);
+      if (!this.isSilent(result)) {
+        this.recordCongestion(true);
+      }
+    }
+
+    return result;
+  }
+
+  private async probeOnce(ip: string, descriptor: PortDescriptor, timeoutMs: number): Promise<PortScanResult> {
+    let result: PortScanResult;
+    let failed = false;
+    await this.rateLimiter?.acquire(this.signal);
+    try {
+      result = await this.prober.probe(ip, descriptor, {
+        timeoutMs,
+        signal: this.signal,
+        calibration: this.calibration
+      });
+    } catch {
+      failed = true;
+      result = {
+        port: descriptor.port,
+        label: descriptor.label,
+        protocol: descriptor.protocol,
+        status: 'unknown',
+        confidence: 0,
+        latencyMs: null,
+        evidence: []
+      };
+    }
+
+    if (this.signal.aborted) {
+      return result;
+    }
+    if (result.latencyMs !== null) {
+      const inflated = this.rtt.isInflated(ip, result.latencyMs);
+      this.rtt.observe(ip, result.latencyMs);
+      this.recordCongestion(inflated);
+    } else if (failed || this.isSilent(result) || result.status === 'unknown') {
+      // Timeouts and errors are what an overloaded network or browser looks like, so they count against concurrency.
+      this.recordCongestion(true);
+    }
+    return result;
+  }
+
+  private isSilent(result: PortScanResult): boolean {
+    return result.status === 'filtered' && result.latencyMs === null;
+  }
+
+  private recordCongestion(congested: boolean) {
+    if (this.concurrency.record(congested)) {
+      this.emit({ type: 'concurrency-changed', concurrency: this.concurrency.current });
+    }
+  }
+
+  private async scanHost(ip: string): Promise<HostScanResult | null> {
+    const { ports } = this.options;
+    const portResults: PortScanResult[] = [];
+    const pending = [...ports];
+
+    this.emit({ type: 'host-started', ip });
+
+    const lane = async () => {
+      while (pending.length > 0) {
+        await this.waitWhilePaused();
+        const descriptor = pending.shift();
+        if (!descriptor || this.signal.aborted) {
+          return;
+        }
+
+        const result = await this.probeWithRetry(ip, descriptor);
+        if (this.signal.aborted) {
+          return;
+        }
+
+        portResults.push(result);
+        this.emit({ type: 'port-result', ip, result });
+      }
+    };
+
+    const lanes = Math.max(1, Math.min(this.tuning.portParallelism, ports.length));
+    await Promise.all(Array.from({ length: lanes }, lane));
+
+    if (this.signal.aborted) {
+      return null;
+    }
+
+    portResults.sort((a, b) => a.port - b.port);
+    const reachable = portResults.some((entry) => isOpen(entry.status));
+    const identity = reachable ? await this.identifyHost(ip) : undefined;
+    if (this.signal.aborted) {
+      return null;
+    }
+
+    return {
+      ip,
+      ports: portResults,
+      reachable,
+      completedAt: Date.now(),
+      ...(identity ? { identity } : {})
+    };
+  }
+
+  private async identifyHost(ip: string): Promise<HostIdentity | undefined> {
+    if (!this.prober.enrich) {
+      return undefined;
+    }
+    try {
+      return await this.prober.enrich(ip, this.options.timeoutMs, this.signal);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import type { Messages } from './i18n';
+import type { TargetError } from './ipRange';
+import type { ScopeViolation } from './scanPolicy';
+
+export type ScanErrorDetail =
+  | { code: 'invalid-body' }
+  | { code: 'missing-targets' }
+  | { code: 'invalid-target'; target: TargetError }
+  | { code: 'missing-ports' }
+  | { code: 'out-of-scope'; violation: ScopeViolation }
+  | { code: 'confirmation-required'; probes: number; limit: number }
+  | { code: 'queue-full'; limit: number }
+  | { code: 'job-not-found'; id: string }
+  | { code: 'http-status'; status: number }
+  | { code: 'history-unavailable' }
+  | { code: 'no-probe-strategy' }
+  // `reason` carries the underlying runtime error text, which has no translation.
+  | { code: 'scan-failed'; reason?: string };
+
+export type ScanErrorCode = ScanErrorDetail['code'];
+
+// Errors that cross the API or reach the UI carry codes; each edge formats them with its own catalog.
+export class ScanError extends Error {
+  readonly details: ScanErrorDetail[];
+
+  constructor(details: ScanErrorDetail | ScanErrorDetail[]) {
+    const list = Array.isArray(details) ? details : [details];
+    super(list.map((detail) => detail.code).join(', '));
+    this.name = 'ScanError';
+    this.details = list;
+  }
+}
+
+const ERROR_CODES: ScanErrorCode[] = [
+  'invalid-body',
+  'missing-targets',
+  'invalid-target',
+  'missing-ports',
+  'out-of-scope',
+  'confirmation-required',
+  'queue-full',
+  'job-not-found',
+  'http-status',
+  'history-unavailable',
+  'no-probe-strategy',
+  'scan-failed'
+];
+
+export function isScanErrorDetail(value: unknown): value is ScanErrorDetail {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    (ERROR_CODES as string[]).includes((value as { code?: unknown }).code as string)
+  );
+}
+
+export function toScanErrorDetail(error: unknown): ScanErrorDetail {
+  if (error instanceof ScanError && error.details.length > 0) {
+    return error.details[0];
+  }
+  return { code: 'scan-failed', reason: error instanceof Error ? error.message : undefined };
+}
+
+export function formatScanError(m: Messages, detail: ScanErrorDetail): string {
+  switch (detail.code) {
+    case 'invalid-target':
+      return m.targetErrors[detail.target.code](detail.target);
+    case 'out-of-scope':
+      return m.scope[detail.violation.reason](detail.violation.count, detail.violation.sample.join(', '));
+    case 'confirmation-required':
+      return m.scanErrors.confirmationRequired(detail.probes, detail.limit);
+    case 'queue-full':
+      return m.scanErrors.queueFull(detail.limit);
+    case 'job-not-found':
+      return m.scanErrors.jobNotFound(detail.id);
+    case 'http-status':
+      return m.scanErrors.httpStatus(detail.status);
+    case 'scan-failed':
+      return detail.reason ? `${m.scanErrors.scanFailed} (${detail.reason})` : m.scanErrors.scanFailed;
+    case 'invalid-body':
+      return m.scanErrors.invalidBody;
+    case 'missing-targets':
+      return m.scanErrors.missingTargets;
+    case 'missing-ports':
+      return m.scanErrors.missingPorts;
+    case 'history-unavailable':
+      return m.scanErrors.historyUnavailable;
+    case 'no-probe-strategy':
+      return m.scanErrors.noProbeStrategy;
+  }
+}
+
+export function describeError(m: Messages, error: unknown, fallback: string): string {
+  if (error instanceof ScanError) {
+    return error.details.map((detail) => formatScanError(m, detail)).join(' ');
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// Reads the `errors` array of a failed API response; anything unrecognised falls back to the HTTP status.
+export async function readScanErrors(response: Response): Promise<ScanError> {
+  const payload = await response.json().catch(() => null);
+  const details: ScanErrorDetail[] = Array.isArray(payload?.errors) ? payload.errors.filter(isScanErrorDetail) : [];
+  return new ScanError(details.length > 0 ? details : [{ code: 'http-status', status: response.status }]);
+}
+
+export function scanErrorBody(m: Messages, details: ScanErrorDetail[]) {
+  return { errors: details.map((detail) => ({ ...detail, message: formatScanError(m, detail) })) };
+}
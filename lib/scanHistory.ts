@@ -0,0 +1,84 @@
+import type { ScanReport } from './resultsExport';
+import { ScanError } from './scanErrors';
+
+const DB_NAME = 'lan-scanner';
+const DB_VERSION = 1;
+const STORE_NAME = 'scans';
+
+export type ScanHistorySummary = {
+  id: number;
+  targets: string;
+  startedAt: number;
+  finishedAt: number;
+  hosts: number;
+  reachable: number;
+};
+
+type StoredScan = {
+  id?: number;
+  startedAt: number;
+  report: ScanReport;
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new ScanError({ code: 'history-unavailable' }));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('startedAt', 'startedAt');
+  };
+  return requestToPromise(request);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openHistoryDb();
+  try {
+    return await requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+function summarize(id: number, report: ScanReport): ScanHistorySummary {
+  return {
+    id,
+    targets: report.config.targets,
+    startedAt: report.startedAt,
+    finishedAt: report.finishedAt,
+    hosts: report.results.length,
+    reachable: report.results.filter((host) => host.reachable).length
+  };
+}
+
+export async function saveScan(report: ScanReport): Promise<number> {
+  const record: StoredScan = { startedAt: report.startedAt, report };
+  const key = await withStore('readwrite', (store) => store.add(record));
+  return Number(key);
+}
+
+export async function listScans(): Promise<ScanHistorySummary[]> {
+  const records = await withStore<StoredScan[]>('readonly', (store) => store.getAll());
+  return records
+    .filter((record): record is StoredScan & { id: number } => typeof record.id === 'number')
+    .map((record) => summarize(record.id, record.report))
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function loadScan(id: number): Promise<ScanReport | null> {
+  const record = await withStore<StoredScan | undefined>('readonly', (store) => store.get(id));
+  return record?.report ?? null;
+}
+
+export async function deleteScan(id: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { describePort } from './ports';
+import { ScanError } from './scanErrors';
+import { ScanJobSession, type ScanJobSnapshot, type ScanJobStatus } from './scanJobs';
+import type { HostScanResult } from './scanTypes';
+
+const originalFetch = globalThis.fetch;
+
+const HOST: HostScanResult = { ip: '10.0.0.5', reachable: false, completedAt: 0, ports: [] };
+
+function snapshot(status: ScanJobStatus, results: HostScanResult[], offset: number): ScanJobSnapshot {
+  return {
+    id: 'job-1',
+    status,
+    config: { targets: '10.0.0.5-6', ports: [describePort(80)], timeoutMs: 1000, backend: 'server' },
+    createdAt: 0,
+    startedAt: 0,
+    finishedAt: null,
+    progress: { total: 2, completed: offset + results.length, reachable: 0 },
+    error: status === 'failed' ? { code: 'scan-failed', reason: 'socket hang up' } : null,
+    offset,
+    results
+  };
+}
+
+// Serves the snapshots in order, one per poll.
+function serve(...snapshots: ScanJobSnapshot[]) {
+  let index = 0;
+  globalThis.fetch = async () => Response.json(snapshots[Math.min(index++, snapshots.length - 1)]);
+}
+
+function follow() {
+  const session = new ScanJobSession('job-1', 0);
+  const events: string[] = [];
+  session.on('finished', ({ cancelled }) => events.push(cancelled ? 'finished:cancelled' : 'finished'));
+  session.on('failed', ({ error, results }) => events.push(`failed:${error.code}:${results.length}`));
+  return { session, events };
+}
+
+describe('ScanJobSession', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('reports a job cancelled on the server as cancelled', async () => {
+    serve(snapshot('running', [HOST], 0), snapshot('cancelled', [], 1));
+    const { session, events } = follow();
+    await session.start();
+    assert.deepEqual(events, ['finished:cancelled']);
+    assert.equal(session.status, 'cancelled');
+  });
+
+  it('reports a failed job as failed instead of finished', async () => {
+    serve(snapshot('running', [HOST], 0), snapshot('failed', [], 1));
+    const { session, events } = follow();
+    await assert.rejects(session.start(), ScanError);
+    assert.deepEqual(events, ['failed:scan-failed:1']);
+    assert.equal(session.status, 'failed');
+  });
+
+  it('finishes normally when the job completes', async () => {
+    serve(snapshot('running', [HOST], 0), snapshot('finished', [{ ...HOST, ip: '10.0.0.6' }], 1));
+    const { session, events } = follow();
+    assert.equal((await session.start()).length, 2);
+    assert.deepEqual(events, ['finished']);
+  });
+});
@@ -0,0 +1,313 @@
+import { ScanEventEmitter, type ScanEngineState, type ScanRunner } from './scanEngine';
+import { readScanErrors, ScanError, toScanErrorDetail, type ScanErrorDetail } from './scanErrors';
+import type { ServerScanPlan, ServerScanRequest } from './serverScan';
+import type { HostScanResult, ScanConfig, ScanProgress } from './scanTypes';
+
+export const SCAN_JOBS_ENDPOINT = '/api/scans';
+export const DEFAULT_MAX_CONCURRENT_SCANS = 2;
+export const MAX_QUEUED_JOBS = 20;
+export const MAX_RETAINED_JOBS = 50;
+
+const POLL_INTERVAL_MS = 1000;
+
+export type ScanJobStatus = 'queued' | 'running' | 'finished' | 'cancelled' | 'failed';
+
+export type ScanJobSummary = {
+  id: string;
+  status: ScanJobStatus;
+  config: ScanConfig;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  progress: ScanProgress;
+  error: ScanErrorDetail | null;
+};
+
+export type ScanJobSnapshot = ScanJobSummary & {
+  offset: number;
+  results: HostScanResult[];
+};
+
+export type ScanJobSubmission = { ok: true; job: ScanJobSummary } | { ok: false; error: ScanErrorDetail };
+
+export type ScanJobEngineFactory = (plan: ServerScanPlan) => ScanRunner;
+
+type ScanJobRecord = ScanJobSummary & {
+  plan: ServerScanPlan | null;
+  engine: ScanRunner | null;
+  results: HostScanResult[];
+};
+
+export function isTerminalJob(status: ScanJobStatus): boolean {
+  return status === 'finished' || status === 'cancelled' || status === 'failed';
+}
+
+export function maxConcurrentScansFromEnv(env: Record<string, string | undefined>): number {
+  const value = Number(env.LAN_SCANNER_MAX_CONCURRENT_SCANS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_CONCURRENT_SCANS;
+}
+
+function summarize(record: ScanJobRecord): ScanJobSummary {
+  const { id, status, config, createdAt, startedAt, finishedAt, progress, error } = record;
+  return { id, status, config, createdAt, startedAt, finishedAt, progress, error };
+}
+
+export class ScanJobQueue {
+  private readonly jobs = new Map<string, ScanJobRecord>();
+  private readonly pending: ScanJobRecord[] = [];
+  private running = 0;
+  private sequence = 0;
+
+  constructor(
+    private readonly createEngine: ScanJobEngineFactory,
+    private readonly maxConcurrent = DEFAULT_MAX_CONCURRENT_SCANS
+  ) {}
+
+  submit(plan: ServerScanPlan): ScanJobSubmission {
+    if (this.pending.length >= MAX_QUEUED_JOBS) {
+      return { ok: false, error: { code: 'queue-full', limit: MAX_QUEUED_JOBS } };
+    }
+
+    this.sequence += 1;
+    const record: ScanJobRecord = {
+      id: `job-${Date.now().toString(36)}-${this.sequence.toString(36)}`,
+      status: 'queued',
+      config: {
+        targets: plan.targets,
+        ports: plan.ports,
+        timeoutMs: plan.timeoutMs,
+        backend: 'server',
+        speed: plan.speed,
+        retryTimeouts: plan.retryTimeouts
+      },
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      progress: { total: plan.hosts.length, completed: 0, reachable: 0 },
+      error: null,
+      plan,
+      engine: null,
+      results: []
+    };
+    this.jobs.set(record.id, record);
+    this.pending.push(record);
+    this.prune();
+    this.pump();
+    return { ok: true, job: summarize(record) };
+  }
+
+  list(): ScanJobSummary[] {
+    return Array.from(this.jobs.values())
+      .map(summarize)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  get(id: string, offset = 0): ScanJobSnapshot | null {
+    const record = this.jobs.get(id);
+    if (!record) {
+      return null;
+    }
+    const start = Math.min(Math.max(0, Math.floor(offset)), record.results.length);
+    return { ...summarize(record), offset: start, results: record.results.slice(start) };
+  }
+
+  cancel(id: string): ScanJobSummary | null {
+    const record = this.jobs.get(id);
+    if (!record) {
+      return null;
+    }
+    if (record.status === 'queued') {
+      this.pending.splice(this.pending.indexOf(record), 1);
+      record.status = 'cancelled';
+      record.finishedAt = Date.now();
+      record.plan = null;
+    } else if (record.status === 'running') {
+      record.engine?.cancel();
+    }
+    return summarize(record);
+  }
+
+  private pump() {
+    while (this.running < this.maxConcurrent && this.pending.length > 0) {
+      const record = this.pending.shift();
+      if (record) {
+        this.launch(record);
+      }
+    }
+  }
+
+  private launch(record: ScanJobRecord) {
+    if (!record.plan) {
+      return;
+    }
+    const engine = this.createEngine(record.plan);
+    record.plan = null;
+    record.engine = engine;
+    record.status = 'running';
+    record.startedAt = Date.now();
+    this.running += 1;
+
+    engine.on('host-done', ({ result, progress }) => {
+      record.results.push(result);
+      record.progress = progress;
+    });
+    engine.on('finished', ({ progress }) => {
+      record.progress = progress;
+    });
+
+    engine
+      .start()
+      .then(() => {
+        record.status = engine.status === 'cancelled' ? 'cancelled' : 'finished';
+      })
+      .catch((error: unknown) => {
+        record.status = 'failed';
+        record.error = toScanErrorDetail(error);
+      })
+      .finally(() => {
+        record.finishedAt = Date.now();
+        record.engine = null;
+        this.running -= 1;
+        this.pump();
+      });
+  }
+
+  private prune() {
+    const finished = Array.from(this.jobs.values())
+      .filter((record) => isTerminalJob(record.status))
+      .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0));
+    const excess = this.jobs.size - MAX_RETAINED_JOBS;
+    finished.slice(0, Math.max(0, excess)).forEach((record) => this.jobs.delete(record.id));
+  }
+}
+
+export async function submitScanJob(request: ServerScanRequest): Promise<ScanJobSummary> {
+  const response = await fetch(SCAN_JOBS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    throw await readScanErrors(response);
+  }
+  return (await response.json()) as ScanJobSummary;
+}
+
+export async function listScanJobs(signal?: AbortSignal): Promise<ScanJobSummary[]> {
+  const response = await fetch(SCAN_JOBS_ENDPOINT, { cache: 'no-store', signal });
+  if (!response.ok) {
+    throw await readScanErrors(response);
+  }
+  const payload = (await response.json()) as { jobs?: ScanJobSummary[] };
+  return Array.isArray(payload.jobs) ? payload.jobs : [];
+}
+
+export async function cancelScanJob(id: string): Promise<ScanJobSummary> {
+  const response = await fetch(`${SCAN_JOBS_ENDPOINT}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw await readScanErrors(response);
+  }
+  return (await response.json()) as ScanJobSummary;
+}
+
+// Follows a job by polling its snapshot. Cancelling the session only stops following; the job keeps running on the
+// server until cancelScanJob is called.
+export class ScanJobSession extends ScanEventEmitter implements ScanRunner {
+  readonly supportsPause = false;
+  private readonly controller = new AbortController();
+  private readonly results: HostScanResult[] = [];
+  private progress: ScanProgress = { total: 0, completed: 0, reachable: 0 };
+  private state: ScanEngineState = 'idle';
+
+  constructor(
+    readonly jobId: string,
+    private readonly pollIntervalMs = POLL_INTERVAL_MS
+  ) {
+    super();
+  }
+
+  get status(): ScanEngineState {
+    return this.state;
+  }
+
+  async start(): Promise<HostScanResult[]> {
+    if (this.state !== 'idle') {
+      throw new Error(`ScanJobSession cannot start from state "${this.state}".`);
+    }
+    this.state = 'running';
+
+    const signal = this.controller.signal;
+    let jobStatus: ScanJobStatus = 'running';
+    try {
+      while (!signal.aborted) {
+        const snapshot = await this.poll(signal);
+        jobStatus = snapshot.status;
+        if (jobStatus === 'failed') {
+          throw new ScanError(snapshot.error ?? { code: 'scan-failed' });
+        }
+        if (isTerminalJob(jobStatus)) {
+          break;
+        }
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, this.pollIntervalMs);
+          signal.addEventListener(
+            'abort',
+            () => {
+              clearTimeout(timer);
+              resolve();
+            },
+            { once: true }
+          );
+        });
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        this.state = 'failed';
+        this.emit({ type: 'failed', results: [...this.results], progress: this.progress, error: toScanErrorDetail(error) });
+        throw error;
+      }
+    }
+
+    // A job cancelled on the server ends the same way as one this session stopped following.
+    const cancelled = signal.aborted || jobStatus === 'cancelled';
+    this.state = cancelled ? 'cancelled' : 'finished';
+    this.emit({ type: 'finished', results: [...this.results], progress: this.progress, cancelled });
+    return [...this.results];
+  }
+
+  pause() {}
+
+  resume() {}
+
+  cancel() {
+    if (this.state === 'finished' || this.state === 'cancelled' || this.state === 'failed') {
+      return;
+    }
+    this.controller.abort();
+    if (this.state === 'idle') {
+      this.state = 'cancelled';
+    }
+  }
+
+  private async poll(signal: AbortSignal): Promise<ScanJobSnapshot> {
+    const url = `${SCAN_JOBS_ENDPOINT}/${encodeURIComponent(this.jobId)}?since=${this.results.length}`;
+    const response = await fetch(url, { cache: 'no-store', signal });
+    if (!response.ok) {
+      throw await readScanErrors(response);
+    }
+    const snapshot = (await response.json()) as ScanJobSnapshot;
+
+    snapshot.results.forEach((result, index) => {
+      this.results.push(result);
+      this.progress = {
+        total: snapshot.progress.total,
+        completed: snapshot.offset + index + 1,
+        reachable: this.progress.reachable + (result.reachable ? 1 : 0)
+      };
+      result.ports.forEach((port) => this.emit({ type: 'port-result', ip: result.ip, result: port }));
+      this.emit({ type: 'host-done', result, progress: this.progress });
+    });
+    this.progress = snapshot.progress;
+    return snapshot;
+  }
+}
@@ -0,0 +1,145 @@
+import { boundsContain, parseAddress, splitTargetExpression, targetBounds, type AddressBounds } from './ipRange';
+import type { ScanTuning } from './scanTuning';
+
+export type ScanPolicy = {
+  allowlist: string[];
+  denylist: string[];
+  confirmProbeThreshold: number;
+  maxProbesPerSecond: number;
+};
+
+export type ScopeViolationReason = 'public' | 'denied';
+
+export type ScopeViolation = {
+  reason: ScopeViolationReason;
+  count: number;
+  sample: string[];
+};
+
+export type ScopeCheck = {
+  allowed: boolean;
+  violations: ScopeViolation[];
+};
+
+export type ScanEstimate = {
+  probes: number;
+  durationMs: number;
+};
+
+export const SCAN_POLICY_ENDPOINT = '/api/policy';
+
+export const PRIVATE_RANGES = [
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '169.254.0.0/16',
+  'fc00::/7',
+  'fe80::/10'
+];
+
+export const DEFAULT_SCAN_POLICY: ScanPolicy = {
+  allowlist: [],
+  denylist: [],
+  confirmProbeThreshold: 5000,
+  maxProbesPerSecond: 500
+};
+
+const VIOLATION_SAMPLE_SIZE = 3;
+
+function toBounds(entries: string[]): AddressBounds[] {
+  return entries.flatMap((entry) => {
+    const bounds = targetBounds(entry);
+    return bounds ? [bounds] : [];
+  });
+}
+
+function validEntries(entries: unknown): string[] {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  return entries.filter((entry): entry is string => typeof entry === 'string' && targetBounds(entry) !== null);
+}
+
+function positiveInteger(value: unknown, fallback: number): number {
+  const numeric = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof numeric === 'number' && Number.isFinite(numeric) && numeric > 0 ? Math.floor(numeric) : fallback;
+}
+
+export function normalizePolicy(value: unknown): ScanPolicy {
+  const candidate = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ScanPolicy, unknown>>;
+  return {
+    allowlist: validEntries(candidate.allowlist),
+    denylist: validEntries(candidate.denylist),
+    confirmProbeThreshold: positiveInteger(candidate.confirmProbeThreshold, DEFAULT_SCAN_POLICY.confirmProbeThreshold),
+    maxProbesPerSecond: positiveInteger(candidate.maxProbesPerSecond, DEFAULT_SCAN_POLICY.maxProbesPerSecond)
+  };
+}
+
+export function policyFromEnv(env: Record<string, string | undefined>): ScanPolicy {
+  return normalizePolicy({
+    allowlist: splitTargetExpression(env.LAN_SCANNER_ALLOWLIST ?? ''),
+    denylist: splitTargetExpression(env.LAN_SCANNER_DENYLIST ?? ''),
+    confirmProbeThreshold: env.LAN_SCANNER_CONFIRM_THRESHOLD,
+    maxProbesPerSecond: env.LAN_SCANNER_MAX_PROBES_PER_SECOND
+  });
+}
+
+export function checkScope(hosts: string[], policy: ScanPolicy): ScopeCheck {
+  // The denylist wins over everything; the allowlist only widens the private ranges that are always permitted.
+  const allowed = toBounds([...PRIVATE_RANGES, ...policy.allowlist]);
+  const denied = toBounds(policy.denylist);
+  const blocked: Record<ScopeViolationReason, string[]> = { denied: [], public: [] };
+
+  for (const ip of hosts) {
+    const address = parseAddress(ip);
+    if (!address) {
+      continue;
+    }
+    if (boundsContain(denied, address)) {
+      blocked.denied.push(ip);
+    } else if (!boundsContain(allowed, address)) {
+      blocked.public.push(ip);
+    }
+  }
+
+  const violations = (Object.keys(blocked) as ScopeViolationReason[])
+    .filter((reason) => blocked[reason].length > 0)
+    .map((reason) => ({
+      reason,
+      count: blocked[reason].length,
+      sample: blocked[reason].slice(0, VIOLATION_SAMPLE_SIZE)
+    }));
+
+  return { allowed: violations.length === 0, violations };
+}
+
+export function estimateScan(
+  hostCount: number,
+  portCount: number,
+  timeoutMs: number,
+  tuning: ScanTuning,
+  policy: ScanPolicy
+): ScanEstimate {
+  const probes = hostCount * portCount;
+  // Worst case: every probe waits for the full timeout, bounded below by the rate cap.
+  const parallel = Math.max(1, tuning.initialConcurrency * Math.min(tuning.portParallelism, Math.max(1, portCount)));
+  const byTimeout = Math.ceil(probes / parallel) * timeoutMs * (1 + tuning.retries);
+  const byRate = (probes / policy.maxProbesPerSecond) * 1000;
+  return { probes, durationMs: Math.max(byTimeout, byRate) };
+}
+
+export function requiresConfirmation(estimate: ScanEstimate, policy: ScanPolicy): boolean {
+  return estimate.probes > policy.confirmProbeThreshold;
+}
+
+export async function fetchScanPolicy(signal?: AbortSignal): Promise<ScanPolicy> {
+  try {
+    const response = await fetch(SCAN_POLICY_ENDPOINT, { cache: 'no-store', signal });
+    if (!response.ok) {
+      return DEFAULT_SCAN_POLICY;
+    }
+    return normalizePolicy(await response.json());
+  } catch {
+    return DEFAULT_SCAN_POLICY;
+  }
+}
@@ -0,0 +1,170 @@
+import { cidrToRange, formatAddress, parseAddress, type IpFamily } from './ipRange';
+
+export type ScanSpeed = 'gentle' | 'normal' | 'aggressive';
+
+export type ScanTuning = {
+  initialConcurrency: number;
+  minConcurrency: number;
+  maxConcurrency: number;
+  portParallelism: number;
+  retries: number;
+  rttMultiplier: number;
+};
+
+export const SCAN_SPEED_PRESETS: Record<ScanSpeed, ScanTuning> = {
+  gentle: {
+    initialConcurrency: 8,
+    minConcurrency: 2,
+    maxConcurrency: 16,
+    portParallelism: 1,
+    retries: 2,
+    rttMultiplier: 6
+  },
+  normal: {
+    initialConcurrency: 24,
+    minConcurrency: 4,
+    maxConcurrency: 64,
+    portParallelism: 3,
+    retries: 1,
+    rttMultiplier: 4
+  },
+  aggressive: {
+    initialConcurrency: 64,
+    minConcurrency: 8,
+    maxConcurrency: 192,
+    portParallelism: 6,
+    retries: 0,
+    rttMultiplier: 3
+  }
+};
+
+export const MIN_ADAPTIVE_TIMEOUT = 500;
+
+const WINDOW_SIZE = 16;
+const CONGESTION_RATIO = 0.25;
+const LATENCY_INFLATION = 3;
+
+export function resolveTuning(speed: ScanSpeed, retryTimeouts: boolean): ScanTuning {
+  const preset = SCAN_SPEED_PRESETS[speed];
+  return retryTimeouts ? preset : { ...preset, retries: 0 };
+}
+
+// Hosts in the same /24 (IPv4) or /64 (IPv6) share an RTT estimate; those are the usual sizes of one LAN segment.
+const SUBNET_PREFIX: Record<IpFamily, number> = { 4: 24, 6: 64 };
+
+export function subnetKey(ip: string): string {
+  const address = parseAddress(ip);
+  if (!address) {
+    return ip;
+  }
+  const prefix = SUBNET_PREFIX[address.family];
+  const range = cidrToRange(`${formatAddress(address)}/${prefix}`, true);
+  return range ? `${range.start}/${prefix}` : ip;
+}
+
+type RttEstimate = {
+  srtt: number;
+  rttvar: number;
+  minRtt: number;
+  samples: number;
+};
+
+export class SubnetRttEstimator {
+  private readonly estimates = new Map<string, RttEstimate>();
+  private readonly multiplier: number;
+
+  constructor(multiplier: number) {
+    this.multiplier = multiplier;
+  }
+
+  observe(ip: string, rtt: number) {
+    const key = subnetKey(ip);
+    const current = this.estimates.get(key);
+    if (!current) {
+      this.estimates.set(key, { srtt: rtt, rttvar: rtt / 2, minRtt: rtt, samples: 1 });
+      return;
+    }
+    const rttvar = 0.75 * current.rttvar + 0.25 * Math.abs(current.srtt - rtt);
+    const srtt = 0.875 * current.srtt + 0.125 * rtt;
+    this.estimates.set(key, { srtt, rttvar, minRtt: Math.min(current.minRtt, rtt), samples: current.samples + 1 });
+  }
+
+  isInflated(ip: string, rtt: number): boolean {
+    const estimate = this.estimates.get(subnetKey(ip));
+    return Boolean(estimate && estimate.samples >= 3 && rtt > estimate.minRtt * LATENCY_INFLATION + 20);
+  }
+
+  timeoutFor(ip: string, ceiling: number): number {
+    const estimate = this.estimates.get(subnetKey(ip));
+    if (!estimate || estimate.samples < 3) {
+      return ceiling;
+    }
+    const derived = Math.ceil((estimate.srtt + 4 * estimate.rttvar) * this.multiplier);
+    return Math.min(ceiling, Math.max(MIN_ADAPTIVE_TIMEOUT, derived));
+  }
+}
+
+export class AdaptiveConcurrency {
+  private value: number;
+  private readonly tuning: ScanTuning;
+  private observations = 0;
+  private congestion = 0;
+
+  constructor(tuning: ScanTuning) {
+    this.tuning = tuning;
+    this.value = Math.min(tuning.maxConcurrency, Math.max(tuning.minConcurrency, tuning.initialConcurrency));
+  }
+
+  get current(): number {
+    return this.value;
+  }
+
+  record(congested: boolean): boolean {
+    this.observations += 1;
+    if (congested) {
+      this.congestion += 1;
+    }
+    if (this.observations < WINDOW_SIZE) {
+      return false;
+    }
+
+    const previous = this.value;
+    if (this.congestion / this.observations >= CONGESTION_RATIO) {
+      this.value = Math.max(this.tuning.minConcurrency, Math.floor(this.value * 0.7));
+    } else if (this.congestion === 0) {
+      this.value = Math.min(this.tuning.maxConcurrency, this.value + Math.max(1, Math.round(this.value * 0.1)));
+    }
+    this.observations = 0;
+    this.congestion = 0;
+    return this.value !== previous;
+  }
+}
+
+export class ProbeRateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(maxPerSecond: number) {
+    this.intervalMs = 1000 / Math.max(1, maxPerSecond);
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    const wait = slot - now;
+    if (wait <= 0 || signal?.aborted) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, wait);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+}
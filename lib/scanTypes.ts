@@ -0,0 +1,102 @@
+import type { PortDescriptor } from './ports';
+import type { ScanSpeed } from './scanTuning';
+
+export type PortStatus = 'open' | 'closed' | 'filtered' | 'unknown';
+
+export type ProbeMethod = 'fetch' | 'fetch-head' | 'image' | 'websocket' | 'tcp' | 'simulated';
+
+export type ProbeEvidence = {
+  method: ProbeMethod;
+  status: PortStatus;
+  confidence: number;
+  latencyMs: number | null;
+};
+
+export type HttpFingerprint = {
+  status: number;
+  title: string | null;
+  server: string | null;
+};
+
+export type TlsFingerprint = {
+  subject: string | null;
+  issuer: string | null;
+  validTo: string | null;
+};
+
+export type ServiceFingerprint = {
+  http?: HttpFingerprint;
+  tls?: TlsFingerprint;
+  banner?: string;
+};
+
+export type PortScanResult = {
+  port: number;
+  label: string;
+  protocol: PortDescriptor['protocol'];
+  status: PortStatus;
+  confidence: number;
+  latencyMs: number | null;
+  evidence: ProbeEvidence[];
+  fingerprint?: ServiceFingerprint;
+};
+
+export type HostIdentity = {
+  hostname?: string;
+  mdnsName?: string;
+  netbiosName?: string;
+  mac?: string;
+  vendor?: string;
+};
+
+export type HostScanResult = {
+  ip: string;
+  ports: PortScanResult[];
+  reachable: boolean;
+  completedAt: number;
+  identity?: HostIdentity;
+};
+
+export type ScanBackend = 'browser' | 'server' | 'simulated';
+
+export type ScanConfig = {
+  targets: string;
+  ports: PortDescriptor[];
+  timeoutMs: number;
+  backend: ScanBackend;
+  speed?: ScanSpeed;
+  retryTimeouts?: boolean;
+};
+
+export type ScanProgress = {
+  total: number;
+  completed: number;
+  reachable: number;
+};
+
+export type TimingCalibration = {
+  deadHostMs: number | null;
+  referenceRttMs: number | null;
+  closedThresholdMs: number;
+  sampledAt: number;
+};
+
+export type ProbeContext = {
+  timeoutMs: number;
+  signal: AbortSignal;
+  calibration: TimingCalibration | null;
+};
+
+export type PortProbe = (ip: string, descriptor: PortDescriptor, context: ProbeContext) => Promise<PortScanResult>;
+
+export type HostEnricher = (ip: string, timeoutMs: number, signal: AbortSignal) => Promise<HostIdentity | undefined>;
+
+export type TimingCalibrator = (timeoutMs: number, signal: AbortSignal) => Promise<TimingCalibration>;
+
+// Everything the scan loop needs from the network: how to probe a port, how to calibrate timing before the first
+// probe and how to identify a host that answered.
+export type Prober = {
+  probe: PortProbe;
+  calibrate?: TimingCalibrator;
+  enrich?: HostEnricher;
+};
@@ -0,0 +1,28 @@
+import { withFingerprint } from './fingerprint';
+import { identifyHost } from './hostIdentity';
+import { ScanEngine } from './scanEngine';
+import { maxConcurrentScansFromEnv, ScanJobQueue } from './scanJobs';
+import type { ServerScanPlan } from './serverScan';
+import { probeTcpPort } from './tcpProbe';
+
+export function createServerScanEngine(plan: ServerScanPlan): ScanEngine {
+  return new ScanEngine({
+    hosts: plan.hosts,
+    ports: plan.ports,
+    timeoutMs: plan.timeoutMs,
+    tuning: plan.tuning,
+    prober: {
+      probe: plan.fingerprint ? withFingerprint(probeTcpPort) : probeTcpPort,
+      enrich: plan.identify ? identifyHost : undefined
+    },
+    maxProbesPerSecond: plan.maxProbesPerSecond
+  });
+}
+
+// Kept on globalThis so every route handler (and dev-mode module reloads) share the same queue.
+const jobsHolder = globalThis as typeof globalThis & { lanScannerJobs?: ScanJobQueue };
+
+export function getScanJobQueue(): ScanJobQueue {
+  jobsHolder.lanScannerJobs ??= new ScanJobQueue(createServerScanEngine, maxConcurrentScansFromEnv(process.env));
+  return jobsHolder.lanScannerJobs;
+}
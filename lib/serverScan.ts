@@ -0,0 +1,248 @@
+import { parseTargets } from './ipRange';
+import { isValidPort, sortPorts, type PortDescriptor } from './ports';
+import { ScanEventEmitter, type ScanEngineState, type ScanRunner } from './scanEngine';
+import { readScanErrors, ScanError, toScanErrorDetail, type ScanErrorDetail } from './scanErrors';
+import { checkScope, DEFAULT_SCAN_POLICY, estimateScan, requiresConfirmation, type ScanPolicy } from './scanPolicy';
+import { resolveTuning, SCAN_SPEED_PRESETS, type ScanSpeed, type ScanTuning } from './scanTuning';
+import type { HostScanResult, ScanProgress } from './scanTypes';
+
+export const SERVER_SCAN_ENDPOINT = '/api/scan';
+export const SERVER_MAX_CONCURRENCY = 256;
+export const SERVER_MIN_TIMEOUT = 200;
+export const SERVER_MAX_TIMEOUT = 10000;
+
+export type ServerScanRequest = {
+  targets: string;
+  ports: PortDescriptor[];
+  timeoutMs: number;
+  concurrency?: number;
+  speed?: ScanSpeed;
+  retryTimeouts?: boolean;
+  fingerprint?: boolean;
+  identify?: boolean;
+  confirmed?: boolean;
+};
+
+export type ServerScanPlan = {
+  targets: string;
+  hosts: string[];
+  ports: PortDescriptor[];
+  timeoutMs: number;
+  tuning: ScanTuning;
+  speed: ScanSpeed;
+  retryTimeouts: boolean;
+  fingerprint: boolean;
+  identify: boolean;
+  maxProbesPerSecond: number;
+};
+
+export type ServerScanMessage =
+  | { type: 'host-started'; ip: string }
+  | { type: 'host-done'; result: HostScanResult; progress: ScanProgress }
+  | { type: 'finished'; progress: ScanProgress; cancelled: boolean }
+  | { type: 'error'; error: ScanErrorDetail };
+
+export type ServerScanValidation = { ok: true; plan: ServerScanPlan } | { ok: false; errors: ScanErrorDetail[] };
+
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  const numeric = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return Math.min(max, Math.max(min, Math.round(numeric)));
+}
+
+export function validateServerScanRequest(
+  body: unknown,
+  policy: ScanPolicy = DEFAULT_SCAN_POLICY
+): ServerScanValidation {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: [{ code: 'invalid-body' }] };
+  }
+
+  const request = body as Partial<ServerScanRequest>;
+  const errors: ScanErrorDetail[] = [];
+
+  const targets = typeof request.targets === 'string' ? parseTargets(request.targets) : null;
+  if (!targets) {
+    errors.push({ code: 'missing-targets' });
+  } else {
+    errors.push(...targets.errors.map((target): ScanErrorDetail => ({ code: 'invalid-target', target })));
+  }
+
+  const ports = Array.isArray(request.ports)
+    ? request.ports.filter(
+        (entry): entry is PortDescriptor =>
+          Boolean(entry) &&
+          isValidPort(entry.port) &&
+          typeof entry.label === 'string' &&
+          (entry.protocol === 'http' || entry.protocol === 'https')
+      )
+    : [];
+  if (ports.length === 0) {
+    errors.push({ code: 'missing-ports' });
+  }
+
+  if (errors.length > 0 || !targets) {
+    return { ok: false, errors };
+  }
+
+  const scope = checkScope(targets.hosts, policy);
+  scope.violations.forEach((violation) => errors.push({ code: 'out-of-scope', violation }));
+
+  const speed: ScanSpeed = request.speed && request.speed in SCAN_SPEED_PRESETS ? request.speed : 'normal';
+  const preset = resolveTuning(speed, request.retryTimeouts === true);
+  const concurrency = clampNumber(request.concurrency, 1, SERVER_MAX_CONCURRENCY, preset.initialConcurrency);
+  const tuning: ScanTuning = {
+    ...preset,
+    initialConcurrency: concurrency,
+    minConcurrency: Math.min(preset.minConcurrency, concurrency),
+    maxConcurrency: Math.min(SERVER_MAX_CONCURRENCY, Math.max(preset.maxConcurrency, concurrency))
+  };
+  const timeoutMs = clampNumber(request.timeoutMs, SERVER_MIN_TIMEOUT, SERVER_MAX_TIMEOUT, 2000);
+
+  const estimate = estimateScan(targets.hosts.length, ports.length, timeoutMs, tuning, policy);
+  if (requiresConfirmation(estimate, policy) && request.confirmed !== true) {
+    errors.push({ code: 'confirmation-required', probes: estimate.probes, limit: policy.confirmProbeThreshold });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    plan: {
+      targets: request.targets as string,
+      hosts: targets.hosts,
+      ports: sortPorts(ports),
+      timeoutMs,
+      tuning,
+      speed,
+      retryTimeouts: request.retryTimeouts === true,
+      fingerprint: request.fingerprint !== false,
+      identify: request.identify !== false,
+      maxProbesPerSecond: policy.maxProbesPerSecond
+    }
+  };
+}
+
+export function encodeNdjson(message: ServerScanMessage): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+export function encodeSse(message: ServerScanMessage): string {
+  return `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+export class ServerScanSession extends ScanEventEmitter implements ScanRunner {
+  readonly supportsPause = false;
+  private readonly request: ServerScanRequest;
+  private readonly controller = new AbortController();
+  private readonly results: HostScanResult[] = [];
+  private progress: ScanProgress = { total: 0, completed: 0, reachable: 0 };
+  private state: ScanEngineState = 'idle';
+
+  constructor(request: ServerScanRequest) {
+    super();
+    this.request = request;
+  }
+
+  get status(): ScanEngineState {
+    return this.state;
+  }
+
+  async start(): Promise<HostScanResult[]> {
+    if (this.state !== 'idle') {
+      throw new Error(`ServerScanSession cannot start from state "${this.state}".`);
+    }
+    this.state = 'running';
+
+    let cancelled = false;
+    try {
+      const response = await fetch(SERVER_SCAN_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+        body: JSON.stringify(this.request),
+        signal: this.controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        throw await readScanErrors(response);
+      }
+
+      cancelled = await this.consume(response.body);
+    } catch (error) {
+      cancelled = this.controller.signal.aborted;
+      if (!cancelled) {
+        this.state = 'failed';
+        this.emit({ type: 'failed', results: [...this.results], progress: this.progress, error: toScanErrorDetail(error) });
+        throw error;
+      }
+    }
+
+    this.state = cancelled ? 'cancelled' : 'finished';
+    this.emit({ type: 'finished', results: [...this.results], progress: this.progress, cancelled });
+    return [...this.results];
+  }
+
+  pause() {}
+
+  resume() {}
+
+  cancel() {
+    if (this.state === 'finished' || this.state === 'cancelled' || this.state === 'failed') {
+      return;
+    }
+    this.controller.abort();
+    if (this.state === 'idle') {
+      this.state = 'cancelled';
+    }
+  }
+
+  private async consume(body: ReadableStream<Uint8Array>): Promise<boolean> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let cancelled = false;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          cancelled = this.handleMessage(JSON.parse(line) as ServerScanMessage) || cancelled;
+        }
+        newline = buffer.indexOf('\n');
+      }
+    }
+
+    return cancelled;
+  }
+
+  private handleMessage(message: ServerScanMessage): boolean {
+    if (message.type === 'host-started') {
+      this.emit({ type: 'host-started', ip: message.ip });
+      return false;
+    }
+
+    if (message.type === 'host-done') {
+      this.results.push(message.result);
+      this.progress = message.progress;
+      message.result.ports.forEach((result) => this.emit({ type: 'port-result', ip: message.result.ip, result }));
+      this.emit({ type: 'host-done', result: message.result, progress: message.progress });
+      return false;
+    }
+
+    if (message.type === 'error') {
+      throw new ScanError(message.error);
+    }
+
+    this.progress = message.progress;
+    return message.cancelled;
+  }
+}
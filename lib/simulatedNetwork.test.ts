@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTargets } from './ipRange';
+import { describePort } from './ports';
+import { ScanEngine } from './scanEngine';
+import { resolveTuning } from './scanTuning';
+import type { HostScanResult } from './scanTypes';
+import { createSimulatedProber, parseScenario, SIMULATED_SCENARIOS } from './simulatedNetwork';
+
+async function scanScenario(): Promise<HostScanResult[]> {
+  const scenario = SIMULATED_SCENARIOS['home-lan'];
+  const engine = new ScanEngine({
+    hosts: parseTargets(scenario.targets).hosts,
+    ports: [22, 53, 80, 443].map((port) => describePort(port)),
+    timeoutMs: 200,
+    tuning: resolveTuning('normal', false),
+    prober: createSimulatedProber(scenario)
+  });
+  // completedAt is wall-clock time; everything else should follow from the seed.
+  return (await engine.start()).map((host) => ({ ...host, completedAt: 0 }));
+}
+
+describe('simulated scans', () => {
+  it('returns the same results for the same scenario seed', async () => {
+    const first = await scanScenario();
+    const second = await scanScenario();
+    assert.deepEqual(second, first);
+
+    const router = first.find((host) => host.ip === '192.168.77.1');
+    assert.deepEqual(
+      router?.ports.filter((port) => port.status === 'open').map((port) => port.port),
+      [53, 80, 443]
+    );
+  });
+});
+
+describe('parseScenario', () => {
+  it('accepts the built-in scenarios', () => {
+    const result = parseScenario(JSON.stringify(SIMULATED_SCENARIOS['flaky-office']));
+    assert.equal(result.ok, true);
+  });
+
+  it('rejects text that is not JSON', () => {
+    assert.deepEqual(parseScenario('{ hosts: ['), { ok: false, code: 'invalid-json' });
+  });
+
+  it('points at the first invalid field', () => {
+    const scenario = { ...SIMULATED_SCENARIOS['home-lan'], hosts: [{ ip: '192.168.77.1', open: [70000] }] };
+    assert.deepEqual(parseScenario(JSON.stringify(scenario)), {
+      ok: false,
+      code: 'invalid-field',
+      path: 'hosts[0].open[0]'
+    });
+    assert.deepEqual(parseScenario(JSON.stringify({ ...scenario, dropRate: 2 })), {
+      ok: false,
+      code: 'invalid-field',
+      path: 'dropRate'
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { normalizeAddress, parseTargets } from './ipRange';
+import { lookupVendor } from './ouiVendors';
+import { isValidPort, type PortDescriptor } from './ports';
+import flakyOffice from './scenarios/flaky-office.json';
+import homeLan from './scenarios/home-lan.json';
+import type { HostIdentity, PortScanResult, PortStatus, ProbeContext, Prober, ServiceFingerprint } from './scanTypes';
+
+// 'rst' answers a closed port right away, like a host that sends a TCP reset; 'silent' drops the probe so it times out.
+export type ClosedPortBehavior = 'rst' | 'silent';
+
+export type SimulatedService = {
+  port: number;
+  latencyMs?: number;
+  fingerprint?: ServiceFingerprint;
+};
+
+export type SimulatedHost = {
+  ip: string;
+  open: Array<number | SimulatedService>;
+  identity?: HostIdentity;
+  latencyMs?: number;
+  jitterMs?: number;
+  dropRate?: number;
+  closedPorts?: ClosedPortBehavior;
+};
+
+export type SimulatedScenario = {
+  description?: string;
+  seed: number;
+  targets: string;
+  latencyMs: number;
+  jitterMs: number;
+  dropRate: number;
+  closedPorts: ClosedPortBehavior;
+  hosts: SimulatedHost[];
+};
+
+export type SimulatedScenarioId = 'home-lan' | 'flaky-office';
+
+export type ScenarioErrorCode = 'invalid-json' | 'invalid-field';
+
+// `path` points at the offending field, e.g. "hosts[2].open[0].port".
+export type ScenarioParseResult =
+  | { ok: true; scenario: SimulatedScenario }
+  | { ok: false; code: ScenarioErrorCode; path?: string };
+
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+const isNonNegative: Check = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isRate: Check = (value) => isNonNegative(value) && (value as number) <= 1;
+const isClosedBehavior: Check = (value) => value === 'rst' || value === 'silent';
+const isText: Check = (value) => typeof value === 'string';
+const isPort: Check = (value) => typeof value === 'number' && isValidPort(value);
+const isNullableText: Check = (value) => value === null || typeof value === 'string';
+
+// Returns the path of the first field that fails its check, or null when all present fields pass.
+function firstInvalid(
+  record: Record<string, unknown>,
+  path: string,
+  required: Record<string, Check>,
+  optional: Record<string, Check> = {}
+): string | null {
+  const failed =
+    Object.keys(required).find((key) => !required[key](record[key])) ??
+    Object.keys(optional).find((key) => record[key] !== undefined && !optional[key](record[key]));
+  return failed === undefined ? null : `${path}${failed}`;
+}
+
+function invalidFingerprint(value: unknown, path: string): string | null {
+  if (!isRecord(value)) {
+    return path;
+  }
+  const checks: Record<string, Check> = {
+    http: (http) =>
+      isRecord(http) &&
+      firstInvalid(http, '', { status: isNonNegative, title: isNullableText, server: isNullableText }) === null,
+    tls: (tls) =>
+      isRecord(tls) &&
+      firstInvalid(tls, '', { subject: isNullableText, issuer: isNullableText, validTo: isNullableText }) === null,
+    banner: isText
+  };
+  return firstInvalid(value, `${path}.`, {}, checks);
+}
+
+function invalidService(value: unknown, path: string): string | null {
+  if (typeof value === 'number') {
+    return isPort(value) ? null : path;
+  }
+  if (!isRecord(value)) {
+    return path;
+  }
+  return (
+    firstInvalid(value, `${path}.`, { port: isPort }, { latencyMs: isNonNegative }) ??
+    (value.fingerprint === undefined ? null : invalidFingerprint(value.fingerprint, `${path}.fingerprint`))
+  );
+}
+
+function invalidHost(value: unknown, path: string): string | null {
+  if (!isRecord(value)) {
+    return path;
+  }
+  const invalid = firstInvalid(
+    value,
+    `${path}.`,
+    { ip: (ip) => typeof ip === 'string' && normalizeAddress(ip) !== null, open: Array.isArray },
+    {
+      identity: (identity) => isRecord(identity) && Object.values(identity).every(isText),
+      latencyMs: isNonNegative,
+      jitterMs: isNonNegative,
+      dropRate: isRate,
+      closedPorts: isClosedBehavior
+    }
+  );
+  if (invalid) {
+    return invalid;
+  }
+  const services = value.open as unknown[];
+  for (let index = 0; index < services.length; index += 1) {
+    const service = invalidService(services[index], `${path}.open[${index}]`);
+    if (service) {
+      return service;
+    }
+  }
+  return null;
+}
+
+export function validateScenario(value: unknown): ScenarioParseResult {
+  if (!isRecord(value)) {
+    return { ok: false, code: 'invalid-field', path: '' };
+  }
+  const invalid = firstInvalid(
+    value,
+    '',
+    {
+      seed: Number.isInteger,
+      targets: (targets) => typeof targets === 'string' && parseTargets(targets).errors.length === 0,
+      latencyMs: isNonNegative,
+      jitterMs: isNonNegative,
+      dropRate: isRate,
+      closedPorts: isClosedBehavior,
+      hosts: Array.isArray
+    },
+    { description: isText }
+  );
+  if (invalid !== null) {
+    return { ok: false, code: 'invalid-field', path: invalid };
+  }
+  const hosts = value.hosts as unknown[];
+  for (let index = 0; index < hosts.length; index += 1) {
+    const host = invalidHost(hosts[index], `hosts[${index}]`);
+    if (host) {
+      return { ok: false, code: 'invalid-field', path: host };
+    }
+  }
+  return { ok: true, scenario: value as SimulatedScenario };
+}
+
+export function parseScenario(text: string): ScenarioParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, code: 'invalid-json' };
+  }
+  return validateScenario(value);
+}
+
+function builtInScenario(id: SimulatedScenarioId, value: unknown): SimulatedScenario {
+  const result = validateScenario(value);
+  if (!result.ok) {
+    throw new Error(`Built-in scenario "${id}" is invalid at "${result.path ?? ''}".`);
+  }
+  return result.scenario;
+}
+
+export const SIMULATED_SCENARIOS: Record<SimulatedScenarioId, SimulatedScenario> = {
+  'home-lan': builtInScenario('home-lan', homeLan),
+  'flaky-office': builtInScenario('flaky-office', flakyOffice)
+};
+
+export const DEFAULT_SCENARIO: SimulatedScenarioId = 'home-lan';
+
+export function isScenarioId(value: unknown): value is SimulatedScenarioId {
+  return typeof value === 'string' && value in SIMULATED_SCENARIOS;
+}
+
+// FNV-1a over the key, finished with the mulberry32 mixer, so every draw depends only on the seed and what is probed.
+function draw(seed: number, key: string): number {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let index = 0; index < key.length; index += 1) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  let t = (hash + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function findService(host: SimulatedHost, port: number): SimulatedService | null {
+  for (const entry of host.open) {
+    const service = typeof entry === 'number' ? { port: entry } : entry;
+    if (service.port === port) {
+      return service;
+    }
+  }
+  return null;
+}
+
+export function createSimulatedProber(scenario: SimulatedScenario): Prober {
+  const hosts = new Map<string, SimulatedHost>();
+  scenario.hosts.forEach((host) => {
+    const ip = normalizeAddress(host.ip);
+    if (ip) {
+      hosts.set(ip, host);
+    }
+  });
+  // Retries of the same port get a fresh draw, so a dropped probe can come back on the next attempt.
+  const attempts = new Map<string, number>();
+
+  const probe = async (ip: string, descriptor: PortDescriptor, context: ProbeContext): Promise<PortScanResult> => {
+    const { timeoutMs, signal } = context;
+    const address = normalizeAddress(ip) ?? ip;
+    const host = hosts.get(address);
+    const key = `${address}|${descriptor.port}`;
+    const attempt = attempts.get(key) ?? 0;
+    attempts.set(key, attempt + 1);
+
+    const service = host ? findService(host, descriptor.port) : null;
+    const answers = host ? service !== null || (host.closedPorts ?? scenario.closedPorts) === 'rst' : false;
+    const dropped = draw(scenario.seed, `${key}|${attempt}|drop`) < (host?.dropRate ?? scenario.dropRate);
+    const jitterMs = host?.jitterMs ?? scenario.jitterMs;
+    const baseMs = service?.latencyMs ?? host?.latencyMs ?? scenario.latencyMs;
+    const elapsedMs = Math.max(0.1, baseMs + (draw(scenario.seed, `${key}|${attempt}|jitter`) * 2 - 1) * jitterMs);
+    const silent = !answers || dropped || elapsedMs >= timeoutMs;
+
+    let status: PortStatus;
+    let confidence: number;
+    let latencyMs: number | null;
+    if (!(await delay(silent ? timeoutMs : elapsedMs, signal))) {
+      status = 'unknown';
+      confidence = 0;
+      latencyMs = null;
+    } else if (silent) {
+      status = 'filtered';
+      confidence = 0.7;
+      latencyMs = null;
+    } else {
+      status = service ? 'open' : 'closed';
+      confidence = service ? 0.99 : 0.95;
+      latencyMs = elapsedMs;
+    }
+
+    return {
+      port: descriptor.port,
+      label: descriptor.label,
+      protocol: descriptor.protocol,
+      status,
+      confidence,
+      latencyMs,
+      evidence: [{ method: 'simulated', status, confidence, latencyMs }],
+      ...(status === 'open' && service?.fingerprint ? { fingerprint: service.fingerprint } : {})
+    };
+  };
+
+  const enrich = async (ip: string): Promise<HostIdentity | undefined> => {
+    const identity = hosts.get(normalizeAddress(ip) ?? ip)?.identity;
+    if (!identity) {
+      return undefined;
+    }
+    const vendor = identity.vendor ?? (identity.mac ? lookupVendor(identity.mac) : null);
+    return vendor ? { ...identity, vendor } : { ...identity };
+  };
+
+  return { probe, enrich };
+}
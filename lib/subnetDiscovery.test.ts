@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { candidateFromLocation, interfaceCidr, isPrivateOrLinkLocal, netmaskToPrefix } from './subnetDiscovery';
+
+describe('subnet suggestions', () => {
+  it('reads IPv4 and IPv6 netmasks', () => {
+    assert.equal(netmaskToPrefix('255.255.252.0'), 22);
+    assert.equal(netmaskToPrefix('ffff:ffff:ffff:ffff::'), 64);
+    assert.equal(netmaskToPrefix('255.0.255.0'), null);
+  });
+
+  it('narrows interface networks to a block that can be swept', () => {
+    assert.equal(interfaceCidr('10.1.2.3', '255.255.0.0'), '10.1.0.0/22');
+    assert.equal(interfaceCidr('192.168.1.37', '255.255.255.0'), '192.168.1.0/24');
+    assert.equal(interfaceCidr('fd12:3456::1:abcd', 'ffff:ffff:ffff:ffff::'), 'fd12:3456::1:ab00/120');
+  });
+
+  it('keeps only private and link-local addresses of both families', () => {
+    assert.deepEqual(
+      ['192.168.0.4', '172.31.0.1', '8.8.8.8', 'fd00::1', 'fe80::1', '2001:db8::1'].filter(isPrivateOrLinkLocal),
+      ['192.168.0.4', '172.31.0.1', 'fd00::1', 'fe80::1']
+    );
+  });
+
+  it('suggests the page host’s network, including bracketed IPv6 hosts', () => {
+    assert.equal(candidateFromLocation('192.168.1.20')?.cidr, '192.168.1.0/24');
+    assert.equal(candidateFromLocation('[fd00::5]')?.cidr, 'fd00::/120');
+    assert.equal(candidateFromLocation('scanner.lan'), null);
+  });
+});
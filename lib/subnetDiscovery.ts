@@ -0,0 +1,183 @@
+import {
+  boundsContain,
+  cidrToRange,
+  isValidIP,
+  normalizeAddress,
+  parseAddress,
+  targetBounds,
+  type AddressBounds,
+  type IpFamily
+} from './ipRange';
+import { listScans } from './scanHistory';
+
+export type SubnetSource = 'location' | 'webrtc' | 'server' | 'history' | 'default';
+
+export type SubnetCandidate = {
+  cidr: string;
+  source: SubnetSource;
+  detail?: string;
+};
+
+export type NetworkInterfaceSummary = {
+  name: string;
+  address: string;
+  netmask: string;
+  cidr: string;
+};
+
+export const FALLBACK_CIDR = '192.168.0.1/24';
+export const NETWORK_INTERFACES_ENDPOINT = '/api/network';
+
+const WEBRTC_TIMEOUT = 1500;
+const RECENT_TARGETS_LIMIT = 5;
+const ADDRESS_BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+const DEFAULT_PREFIX: Record<IpFamily, number> = { 4: 24, 6: 120 };
+// An IPv6 LAN is a /64, far beyond what can be swept, so suggestions stay within the /120 around the address.
+const MIN_SUGGESTED_PREFIX: Record<IpFamily, number> = { 4: 22, 6: 120 };
+
+const LAN_RANGES: AddressBounds[] = [
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '169.254.0.0/16',
+  'fc00::/7',
+  'fe80::/10'
+].flatMap((cidr) => targetBounds(cidr) ?? []);
+
+export function netmaskToPrefix(netmask: string): number | null {
+  const mask = parseAddress(netmask);
+  if (!mask) {
+    return null;
+  }
+  const bits = mask.value.toString(2).padStart(ADDRESS_BITS[mask.family], '0');
+  if (!/^1*0*$/.test(bits)) {
+    return null;
+  }
+  const firstZero = bits.indexOf('0');
+  return firstZero === -1 ? bits.length : firstZero;
+}
+
+export function toNetworkCidr(address: string, prefix?: number): string {
+  const parsed = parseAddress(address);
+  const bits = prefix ?? (parsed ? DEFAULT_PREFIX[parsed.family] : DEFAULT_PREFIX[4]);
+  const range = cidrToRange(`${address}/${bits}`, true);
+  return `${range?.start ?? address}/${bits}`;
+}
+
+export function interfaceCidr(address: string, netmask: string): string {
+  const family = parseAddress(address)?.family ?? 4;
+  const prefix = netmaskToPrefix(netmask) ?? DEFAULT_PREFIX[family];
+  return toNetworkCidr(address, Math.max(prefix, MIN_SUGGESTED_PREFIX[family]));
+}
+
+export function isPrivateOrLinkLocal(address: string): boolean {
+  const parsed = parseAddress(address);
+  return parsed !== null && boundsContain(LAN_RANGES, parsed);
+}
+
+export function candidateFromLocation(hostname: string | undefined): SubnetCandidate | null {
+  // IPv6 hosts come bracketed in location.hostname.
+  const address = hostname ? normalizeAddress(hostname) : null;
+  if (!address) {
+    return null;
+  }
+  return { cidr: toNetworkCidr(address), source: 'location', detail: address };
+}
+
+export function resolveDefaultCidr(): string {
+  if (typeof window === 'undefined') {
+    return FALLBACK_CIDR;
+  }
+  return candidateFromLocation(window.location.hostname)?.cidr ?? FALLBACK_CIDR;
+}
+
+export async function discoverWebRtcAddresses(timeoutMs = WEBRTC_TIMEOUT): Promise<string[]> {
+  if (typeof window === 'undefined' || typeof RTCPeerConnection === 'undefined') {
+    return [];
+  }
+
+  const connection = new RTCPeerConnection({ iceServers: [] });
+  const addresses = new Set<string>();
+
+  try {
+    connection.createDataChannel('lan-scanner');
+    const gathered = new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      connection.onicecandidate = (event) => {
+        if (!event.candidate) {
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        const address = event.candidate.address ?? event.candidate.candidate.split(' ')[4];
+        if (address && isValidIP(address)) {
+          addresses.add(address);
+        }
+      };
+    });
+
+    await connection.setLocalDescription(await connection.createOffer());
+    await gathered;
+  } catch {
+    return [];
+  } finally {
+    connection.close();
+  }
+
+  return Array.from(addresses);
+}
+
+export async function fetchServerInterfaces(signal?: AbortSignal): Promise<NetworkInterfaceSummary[]> {
+  try {
+    const response = await fetch(NETWORK_INTERFACES_ENDPOINT, { cache: 'no-store', signal });
+    if (!response.ok) {
+      return [];
+    }
+    const payload = (await response.json()) as { interfaces?: NetworkInterfaceSummary[] };
+    return Array.isArray(payload.interfaces) ? payload.interfaces : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function recentSubnets(): Promise<SubnetCandidate[]> {
+  try {
+    const entries = await listScans();
+    return Array.from(new Set(entries.map((entry) => entry.targets.trim())))
+      .slice(0, RECENT_TARGETS_LIMIT)
+      .map((targets): SubnetCandidate => ({ cidr: targets, source: 'history' }));
+  } catch {
+    return [];
+  }
+}
+
+export function mergeCandidates(candidates: SubnetCandidate[]): SubnetCandidate[] {
+  const seen = new Map<string, SubnetCandidate>();
+  candidates.forEach((candidate) => {
+    const key = candidate.cidr.trim();
+    if (key && !seen.has(key)) {
+      seen.set(key, { ...candidate, cidr: key });
+    }
+  });
+  return Array.from(seen.values());
+}
+
+// WebRTC gathering and the server round-trip are slow, so this runs on demand; recentSubnets is cheap to refresh.
+export async function discoverLocalSubnets(includeServer: boolean): Promise<SubnetCandidate[]> {
+  const location = typeof window !== 'undefined' ? candidateFromLocation(window.location.hostname) : null;
+
+  const [webrtc, server] = await Promise.all([
+    discoverWebRtcAddresses(),
+    includeServer ? fetchServerInterfaces() : Promise.resolve([])
+  ]);
+
+  return [
+    ...(location ? [location] : []),
+    ...webrtc
+      .filter(isPrivateOrLinkLocal)
+      .map((address): SubnetCandidate => ({ cidr: toNetworkCidr(address), source: 'webrtc', detail: address })),
+    ...server.map(
+      (entry): SubnetCandidate => ({ cidr: entry.cidr, source: 'server', detail: `${entry.name} · ${entry.address}` })
+    )
+  ];
+}
@@ -0,0 +1,100 @@
+import { fastestOpenLatency } from './hostResults';
+import { formatAddress, parseAddress, type IpFamily } from './ipRange';
+import type { HostScanResult } from './scanTypes';
+
+export type MapCellState = 'outside' | 'pending' | 'scanning' | 'silent' | 'responsive';
+
+export type SubnetBlock = {
+  key: string;
+  label: string;
+  family: IpFamily;
+  base: bigint;
+  targeted: Set<number>;
+};
+
+export const BLOCK_SIZE = 256;
+export const BLOCK_COLUMNS = 16;
+
+export const MAP_CELL_COLORS: Record<Exclude<MapCellState, 'responsive'>, string> = {
+  outside: '#0f172a',
+  pending: '#334155',
+  scanning: '#22d3ee',
+  silent: '#475569'
+};
+
+const FAST_LATENCY_MS = 2;
+const SLOW_LATENCY_MS = 500;
+
+const BLOCK_SIZE_BIG = BigInt(BLOCK_SIZE);
+
+// IPv4 blocks are the familiar /24s; IPv6 uses the same 256-address grid, which is a /120.
+function blockLabel(family: IpFamily, base: bigint): string {
+  const address = formatAddress({ family, value: base });
+  return family === 4 ? `${address}/24` : `${address}/120`;
+}
+
+export function buildSubnetBlocks(hosts: string[]): SubnetBlock[] {
+  const blocks = new Map<string, SubnetBlock>();
+  hosts.forEach((ip) => {
+    const address = parseAddress(ip);
+    if (!address) {
+      return;
+    }
+    const offset = address.value % BLOCK_SIZE_BIG;
+    const base = address.value - offset;
+    const key = `${address.family}:${base}`;
+    const block = blocks.get(key) ?? {
+      key,
+      label: blockLabel(address.family, base),
+      family: address.family,
+      base,
+      targeted: new Set<number>()
+    };
+    block.targeted.add(Number(offset));
+    blocks.set(key, block);
+  });
+  return Array.from(blocks.values()).sort(
+    (a, b) => a.family - b.family || (a.base < b.base ? -1 : a.base > b.base ? 1 : 0)
+  );
+}
+
+export function cellAddress(block: SubnetBlock, offset: number): string {
+  return formatAddress({ family: block.family, value: block.base + BigInt(offset) });
+}
+
+export function resolveCellState(
+  targeted: boolean,
+  result: HostScanResult | undefined,
+  scanning: boolean
+): MapCellState {
+  if (result) {
+    return result.reachable ? 'responsive' : 'silent';
+  }
+  if (scanning) {
+    return 'scanning';
+  }
+  return targeted ? 'pending' : 'outside';
+}
+
+export function latencyColor(latencyMs: number | null): string {
+  if (latencyMs === null) {
+    return 'hsl(150, 70%, 45%)';
+  }
+  // Log scale so a handful of slow hosts does not wash out the differences between fast ones.
+  const clamped = Math.min(SLOW_LATENCY_MS, Math.max(FAST_LATENCY_MS, latencyMs));
+  const ratio = Math.log(clamped / FAST_LATENCY_MS) / Math.log(SLOW_LATENCY_MS / FAST_LATENCY_MS);
+  return `hsl(${Math.round(150 - ratio * 150)}, 75%, 50%)`;
+}
+
+export function cellColor(state: MapCellState, result: HostScanResult | undefined): string {
+  if (state === 'responsive') {
+    return latencyColor(result ? fastestOpenLatency(result) : null);
+  }
+  return MAP_CELL_COLORS[state];
+}
+
+export const LATENCY_LEGEND_GRADIENT = `linear-gradient(to right, ${[FAST_LATENCY_MS, 10, 50, SLOW_LATENCY_MS]
+  .map(latencyColor)
+  .join(', ')})`;
+
+export const LATENCY_LEGEND_RANGE = { fast: FAST_LATENCY_MS, slow: SLOW_LATENCY_MS };
@@ -0,0 +1,71 @@
+import { Socket } from 'node:net';
+import type { PortDescriptor } from './ports';
+import type { PortScanResult, PortStatus, ProbeContext } from './scanTypes';
+
+type TcpOutcome = {
+  status: PortStatus;
+  confidence: number;
+  latencyMs: number | null;
+};
+
+const ERROR_VERDICTS: Record<string, Omit<TcpOutcome, 'latencyMs'>> = {
+  ECONNREFUSED: { status: 'closed', confidence: 0.95 },
+  ECONNRESET: { status: 'closed', confidence: 0.8 },
+  EHOSTUNREACH: { status: 'filtered', confidence: 0.8 },
+  ENETUNREACH: { status: 'filtered', confidence: 0.8 },
+  EHOSTDOWN: { status: 'filtered', confidence: 0.8 }
+};
+
+export function connectTcp(host: string, port: number, timeoutMs: number, signal: AbortSignal): Promise<TcpOutcome> {
+  return new Promise<TcpOutcome>((resolve) => {
+    const socket = new Socket();
+    const start = performance.now();
+    let settled = false;
+
+    const finalize = (outcome: TcpOutcome) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal.removeEventListener('abort', onAbort);
+      socket.destroy();
+      resolve(outcome);
+    };
+
+    const onAbort = () => finalize({ status: 'unknown', confidence: 0, latencyMs: null });
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => {
+      finalize({ status: 'open', confidence: 0.99, latencyMs: performance.now() - start });
+    });
+    socket.once('timeout', () => {
+      finalize({ status: 'filtered', confidence: 0.7, latencyMs: null });
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      const verdict = (error.code && ERROR_VERDICTS[error.code]) || { status: 'unknown' as const, confidence: 0.3 };
+      finalize({ ...verdict, latencyMs: verdict.status === 'closed' ? performance.now() - start : null });
+    });
+
+    socket.connect(port, host);
+  });
+}
+
+export async function probeTcpPort(ip: string, descriptor: PortDescriptor, context: ProbeContext): Promise<PortScanResult> {
+  const { status, confidence, latencyMs } = await connectTcp(ip, descriptor.port, context.timeoutMs, context.signal);
+
+  return {
+    port: descriptor.port,
+    label: descriptor.label,
+    protocol: descriptor.protocol,
+    status,
+    confidence,
+    latencyMs,
+    evidence: [{ method: 'tcp', status, confidence, latencyMs }]
+  };
+}
@@ -0,0 +1,190 @@
+import { parseArgs } from 'node:util';
+import { compareHostResults, fastestOpenLatency, hostDisplayName } from '../lib/hostResults';
+import { DEFAULT_LOCALE, matchLocale, MESSAGES, type Locale } from '../lib/i18n';
+import { DEFAULT_PORTS, formatPortExpression, parsePortExpression, type PortDescriptor } from '../lib/ports';
+import { createReport, exportCsv, exportJson } from '../lib/resultsExport';
+import { describeError, formatScanError } from '../lib/scanErrors';
+import { DEFAULT_SCAN_POLICY, policyFromEnv } from '../lib/scanPolicy';
+import { createServerScanEngine } from '../lib/serverEngine';
+import { validateServerScanRequest } from '../lib/serverScan';
+import { SCAN_SPEED_PRESETS, type ScanSpeed } from '../lib/scanTuning';
+import type { HostScanResult, ScanConfig } from '../lib/scanTypes';
+
+type OutputFormat = 'json' | 'csv' | 'table';
+
+const EXIT_RESPONDED = 0;
+const EXIT_NO_RESPONSE = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILURE = 3;
+const EXIT_INTERRUPTED = 130;
+
+// The CLI has no cookie or Accept-Language; it follows the POSIX locale variables, e.g. LANG=en_US.UTF-8.
+function cliLocale(env: NodeJS.ProcessEnv): Locale {
+  const tag = env.LC_ALL || env.LC_MESSAGES || env.LANG;
+  return matchLocale(tag?.split('.')[0].replace('_', '-')) ?? DEFAULT_LOCALE;
+}
+
+const messages = MESSAGES[cliLocale(process.env)];
+
+function fail(message: string): never {
+  process.stderr.write(`lan-scan: ${message}\n${messages.cli.seeHelp}\n`);
+  process.exit(EXIT_USAGE);
+}
+
+function readArgs() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        ports: { type: 'string', short: 'p' },
+        timeout: { type: 'string', short: 't' },
+        format: { type: 'string', short: 'f', default: 'table' },
+        speed: { type: 'string', short: 's', default: 'normal' },
+        retry: { type: 'boolean', default: false },
+        fingerprint: { type: 'boolean', default: false },
+        identify: { type: 'boolean', default: false },
+        all: { type: 'boolean', default: false },
+        yes: { type: 'boolean', short: 'y', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    // Unknown options and missing option values are usage errors, not scan failures.
+    return fail(messages.cli.invalidArguments(error instanceof Error ? error.message : String(error)));
+  }
+}
+
+function parsePorts(expression: string | undefined): PortDescriptor[] {
+  if (!expression) {
+    return DEFAULT_PORTS;
+  }
+  const parsed = parsePortExpression(expression);
+  if (parsed.errors.length > 0) {
+    fail(parsed.errors.map((error) => messages.portErrors[error.code](error)).join(' '));
+  }
+  return parsed.descriptors;
+}
+
+function formatTable(results: HostScanResult[]): string {
+  const rows = results.map((host) => {
+    const open = host.ports.filter((port) => port.status === 'open');
+    const latency = fastestOpenLatency(host);
+    return [
+      host.ip,
+      host.reachable ? messages.cli.responded : messages.cli.noResponse,
+      hostDisplayName(host.identity) ?? '',
+      host.identity?.mac ?? '',
+      latency !== null ? `${Math.round(latency)} ms` : '',
+      open.map((port) => `${port.port}/${port.protocol}`).join(' ')
+    ];
+  });
+  const header = messages.cli.headers;
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+async function main() {
+  const { values, positionals } = readArgs();
+
+  if (values.help) {
+    process.stdout.write(
+      `${messages.cli.usage(
+        formatPortExpression(DEFAULT_PORTS),
+        DEFAULT_SCAN_POLICY.confirmProbeThreshold,
+        DEFAULT_SCAN_POLICY.maxProbesPerSecond
+      )}\n`
+    );
+    return EXIT_RESPONDED;
+  }
+
+  const targets = positionals.join(',');
+  if (!targets) {
+    fail(messages.cli.missingTargets);
+  }
+
+  const format = values.format as OutputFormat;
+  if (format !== 'json' && format !== 'csv' && format !== 'table') {
+    fail(messages.cli.unknownFormat(String(values.format)));
+  }
+  const speed = values.speed as ScanSpeed;
+  if (!(speed in SCAN_SPEED_PRESETS)) {
+    fail(messages.cli.unknownSpeed(String(values.speed)));
+  }
+  const timeoutMs = values.timeout === undefined ? 2000 : Number(values.timeout);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    fail(messages.cli.invalidTimeout(String(values.timeout)));
+  }
+
+  const validation = validateServerScanRequest(
+    {
+      targets,
+      ports: parsePorts(values.ports),
+      timeoutMs,
+      speed,
+      retryTimeouts: values.retry,
+      fingerprint: values.fingerprint,
+      identify: values.identify,
+      confirmed: values.yes
+    },
+    policyFromEnv(process.env)
+  );
+  if (!validation.ok) {
+    fail(validation.errors.map((error) => formatScanError(messages, error)).join(' '));
+  }
+
+  const { plan } = validation;
+  const engine = createServerScanEngine(plan);
+  const showProgress = process.stderr.isTTY;
+  let interrupted = false;
+
+  process.once('SIGINT', () => {
+    interrupted = true;
+    engine.cancel();
+  });
+  if (showProgress) {
+    engine.on('host-done', ({ progress }) => {
+      process.stderr.write(`\r${messages.cli.progress(progress.completed, progress.total, progress.reachable)}`);
+    });
+  }
+
+  const startedAt = Date.now();
+  const results = await engine.start();
+  const finishedAt = Date.now();
+  if (showProgress) {
+    process.stderr.write('\n');
+  }
+
+  const config: ScanConfig = {
+    targets,
+    ports: plan.ports,
+    timeoutMs: plan.timeoutMs,
+    backend: 'server',
+    speed,
+    retryTimeouts: values.retry
+  };
+  const selected = (values.all ? results : results.filter((host) => host.reachable)).sort(compareHostResults);
+  const report = createReport(config, selected, startedAt, finishedAt);
+
+  const output = format === 'json' ? exportJson(report) : format === 'csv' ? exportCsv(report) : formatTable(selected);
+  process.stdout.write(`${output}\n`);
+
+  if (interrupted) {
+    return EXIT_INTERRUPTED;
+  }
+  return results.some((host) => host.reachable) ? EXIT_RESPONDED : EXIT_NO_RESPONSE;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    process.stderr.write(`lan-scan: ${describeError(messages, error, String(error))}\n`);
+    process.exit(EXIT_FAILURE);
+  }
+);